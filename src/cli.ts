@@ -1,6 +1,14 @@
 #!/usr/bin/env bun
 
-import { fetchCommand, storeCommand, getCommand, getsCommand } from "./commands";
+import {
+  fetchCommand,
+  extractCommand,
+  storeCommand,
+  getCommand,
+  getsCommand,
+  refreshCommand,
+  handlerCommand,
+} from "./commands";
 
 const VERSION = "1.0.0";
 
@@ -13,9 +21,12 @@ Usage:
 
 Commands:
   fetch <url>    Fetch a web page (always fresh, bypasses cache)
+  extract        Extract content from HTML (--file or stdin), no fetch
   store <url>    Store page data directly in database
-  get            Get a stored page by ID
+  get            Get a stored page by ID, or by URL (fetched if not cached)
   gets           Get multiple stored pages by IDs
+  refresh        Re-fetch a stored page (conditional request, keeps its ID)
+  handler        Manage site handlers (add, list, show, update, remove)
 
 Global Options:
   -h, --help     Show this help message
@@ -24,8 +35,11 @@ Global Options:
 Examples:
   webcontent fetch https://example.com
   webcontent fetch https://example.com --store --ttl 7d
+  webcontent extract --file page.html --base-url https://example.com
   webcontent get --id abc123def456
+  webcontent get --url https://example.com
   webcontent gets --ids abc123,def456,ghi789
+  webcontent handler list
 
 Run 'webcontent <command> --help' for more information on a command.
 `);
@@ -55,6 +69,9 @@ async function main(): Promise<void> {
     case "fetch":
       await fetchCommand(commandArgs);
       break;
+    case "extract":
+      await extractCommand(commandArgs);
+      break;
     case "store":
       await storeCommand(commandArgs);
       break;
@@ -64,6 +81,12 @@ async function main(): Promise<void> {
     case "gets":
       await getsCommand(commandArgs);
       break;
+    case "refresh":
+      await refreshCommand(commandArgs);
+      break;
+    case "handler":
+      await handlerCommand(commandArgs);
+      break;
     default:
       console.error(`Unknown command: ${command}`);
       showHelp();
@@ -0,0 +1,389 @@
+import { parseArgs } from "util";
+import {
+  parseHtmlMeta,
+  extractWithScope,
+  CONTENT_FORMATS,
+  MARKDOWN_FLAVORS,
+  validateContentLimits,
+  type ContentLimits,
+  type ContentFormat,
+  type MarkdownFlavor,
+  type Scope,
+  type ScopeResolution,
+  parseScopeArg,
+} from "../services";
+import { parseDataParam, runPlugins, type DataRequest } from "../plugins";
+import { parseTtl, logRequest } from "../utils";
+import {
+  parseIncludeFields,
+  toNumber,
+  contentRequestOptions,
+  contentPageOptions,
+  scopeDebugInfo,
+  getExtractOptions,
+  storeContentPage,
+  type ContentCommandOptions,
+  type ContentRequestOptions,
+  type ContentResult,
+  type ScopeDebugInfo,
+} from "./shared";
+
+interface ExtractCommandOptions extends ContentCommandOptions {
+  html: string;
+  baseUrl?: string;
+}
+
+interface ApiRequest {
+  baseUrl: string | null;
+  options: ContentRequestOptions;
+}
+
+interface DebugInfo {
+  scope?: ScopeDebugInfo;
+}
+
+interface ApiResult_Result extends ContentResult {
+  url: string | null;
+}
+
+interface ApiOutput {
+  request: ApiRequest;
+  result: ApiResult_Result;
+  debug?: DebugInfo;
+}
+
+export async function extractCommand(args: string[]): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      file: {
+        type: "string",
+      },
+      "base-url": {
+        type: "string",
+      },
+      scope: {
+        type: "string",
+        short: "s",
+      },
+      exclude: {
+        type: "string",
+        short: "x",
+      },
+      format: {
+        type: "string",
+        short: "f",
+      },
+      include: {
+        type: "string",
+        short: "i",
+      },
+      "relative-urls": {
+        type: "boolean",
+      },
+      "markdown-flavor": {
+        type: "string",
+      },
+      "max-length": {
+        type: "string",
+      },
+      "max-tokens": {
+        type: "string",
+      },
+      data: {
+        type: "string",
+        short: "d",
+      },
+      output: {
+        type: "string",
+        short: "o",
+      },
+      store: {
+        type: "boolean",
+      },
+      "store-body": {
+        type: "boolean",
+      },
+      ttl: {
+        type: "string",
+      },
+      client: {
+        type: "string",
+      },
+      debug: {
+        type: "boolean",
+      },
+      help: {
+        type: "boolean",
+        short: "h",
+      },
+    },
+    allowPositionals: false,
+  });
+
+  if (values.help) {
+    showExtractHelp();
+    return;
+  }
+
+  const baseUrl = values["base-url"];
+  if (baseUrl && !baseUrl.startsWith("http://") && !baseUrl.startsWith("https://")) {
+    console.error("Error: --base-url must start with http:// or https://");
+    process.exit(1);
+  }
+
+  if (values.store && !baseUrl) {
+    console.error("Error: --base-url is required with --store");
+    process.exit(1);
+  }
+
+  if (values["store-body"] && !values.store) {
+    console.error("Error: --store-body requires --store");
+    process.exit(1);
+  }
+
+  let scope: Scope;
+  try {
+    scope = parseScopeArg(values.scope || "main", values.exclude);
+  } catch (error) {
+    console.error("Error:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  const format = (values.format as ContentFormat) || "markdown";
+  if (!CONTENT_FORMATS.includes(format)) {
+    console.error('Error: Format must be "html", "markdown", "text", or "json"');
+    process.exit(1);
+  }
+
+  const markdownFlavor = (values["markdown-flavor"] as MarkdownFlavor) || "basic";
+  if (!MARKDOWN_FLAVORS.includes(markdownFlavor)) {
+    console.error('Error: Markdown flavor must be "basic" or "gfm"');
+    process.exit(1);
+  }
+
+  let limits: ContentLimits;
+  try {
+    limits = validateContentLimits({
+      maxLength: toNumber(values["max-length"]),
+      maxTokens: toNumber(values["max-tokens"]),
+    });
+  } catch (error) {
+    console.error("Error:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  let dataRequest: DataRequest | null = null;
+  try {
+    dataRequest = parseDataParam(values.data);
+  } catch (error) {
+    console.error("Error:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  const html = await readHtml(values.file);
+  if (!html.trim()) {
+    console.error("Error: HTML is required (--file or stdin)");
+    showExtractHelp();
+    process.exit(1);
+  }
+
+  const options: ExtractCommandOptions = {
+    html,
+    baseUrl,
+    scope,
+    format,
+    relativeUrls: !!values["relative-urls"],
+    markdownFlavor,
+    limits,
+    output: values.output,
+    include: parseIncludeFields(values.include),
+    data: dataRequest,
+    debug: !!values.debug,
+    store: {
+      enabled: !!values.store,
+      ttl: parseTtl(values.ttl),
+      client: values.client,
+      body: !!values["store-body"],
+    },
+  };
+
+  await executeExtract(options);
+}
+
+/** HTML from --file, else from stdin (nothing when stdin is a terminal) */
+async function readHtml(file?: string): Promise<string> {
+  if (file) {
+    const input = Bun.file(file);
+    if (!(await input.exists())) {
+      console.error(`Error: File not found: ${file}`);
+      process.exit(1);
+    }
+    return input.text();
+  }
+
+  if (process.stdin.isTTY) {
+    return "";
+  }
+  return Bun.stdin.text();
+}
+
+async function executeExtract(options: ExtractCommandOptions): Promise<void> {
+  try {
+    const apiRequest: ApiRequest = {
+      baseUrl: options.baseUrl ?? null,
+      options: contentRequestOptions(options),
+    };
+
+    const apiOutput: ApiOutput = {
+      request: apiRequest,
+      result: {
+        timestamp: Date.now(),
+        url: options.baseUrl ?? null,
+      },
+    };
+
+    // Track scope resolution for debug and storage
+    let scopeResolution: ScopeResolution | undefined;
+
+    if (options.include.body) {
+      apiOutput.result.body = options.html;
+    }
+
+    if (options.include.meta) {
+      apiOutput.result.meta = parseHtmlMeta(options.html);
+    }
+
+    if (options.include.content) {
+      const extraction = await extractWithScope(
+        options.html,
+        options.scope,
+        options.format,
+        options.baseUrl,
+        {
+          ...(await getExtractOptions(options.scope, options.store.client)),
+          relativeUrls: options.relativeUrls,
+          markdownFlavor: options.markdownFlavor,
+          ...options.limits,
+        }
+      );
+      apiOutput.result.content = extraction.content;
+      Object.assign(apiOutput.result, extraction.truncation);
+      scopeResolution = extraction.scopeResolution;
+    }
+
+    // Add debug info only if --debug flag is set
+    if (options.debug) {
+      apiOutput.debug = {};
+      if (scopeResolution) {
+        apiOutput.debug.scope = scopeDebugInfo(options.scope, scopeResolution);
+      }
+    }
+
+    // Run data plugins
+    if (options.data) {
+      apiOutput.result.data = await runPlugins(options.html, options.data);
+    }
+
+    // Database storage, under the base URL. Not a fetch of that URL, so
+    // without an options hash: cached fetches (get --url) never serve it.
+    if (options.store.enabled && options.baseUrl) {
+      try {
+        // Add store options to request for visibility
+        apiRequest.options.store = {
+          ttl: options.store.ttl,
+          client: options.store.client,
+          ...(options.store.body && { body: true }),
+        };
+
+        const storedPage = await storeContentPage(
+          {
+            url: options.baseUrl,
+            client: options.store.client || null,
+            title: apiOutput.result.meta?.title || null,
+            status: 200,
+            content: apiOutput.result.content || null,
+            meta: apiOutput.result.meta || {},
+            data: apiOutput.result.data || {},
+            options: contentPageOptions(options, scopeResolution),
+            body: options.store.body ? options.html : null,
+          },
+          options.store.ttl
+        );
+        apiOutput.result.id = storedPage.id;
+        console.error(`Successfully stored page in database (ID: ${storedPage.id})`);
+      } catch (dbError) {
+        console.error(
+          "Database Error:",
+          dbError instanceof Error ? dbError.message : dbError
+        );
+        // Don't exit here, still output the extraction result
+      }
+    }
+
+    logRequest({
+      timestamp: apiOutput.result.timestamp,
+      command: "extract",
+      url: options.baseUrl,
+      id: apiOutput.result.id,
+      status: 200,
+    });
+
+    const outputText = JSON.stringify(apiOutput, null, 2);
+    if (options.output) {
+      await Bun.write(options.output, outputText);
+      console.error(`Output written to ${options.output}`);
+    } else {
+      console.log(outputText);
+    }
+  } catch (error) {
+    console.error("Error:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+function showExtractHelp(): void {
+  console.log(`
+webcontent extract - Extract content from HTML you already have (no fetch)
+
+Runs the same metadata, scope extraction and data plugins as 'webcontent fetch'
+on HTML read from --file or stdin.
+
+Usage:
+  webcontent extract --file <path> [options]
+  <command> | webcontent extract [options]
+
+Options:
+  --file <path>           Read HTML from a file (default: stdin)
+  --base-url <url>        URL of the page, for site handlers (auto scope) and storage
+  -s, --scope <type>      Content scope (default: main)
+  -x, --exclude <sel>     CSS selectors to exclude (for selector scope)
+  -f, --format <fmt>      Output format: html | markdown | text | json
+                          (default: markdown)
+  -i, --include <fields>  Fields to include: meta, content, body (default: meta,content)
+  --relative-urls         Keep relative link/image URLs (default: resolve against
+                          --base-url or <base href>)
+  --markdown-flavor <f>   Markdown flavor: basic | gfm (default: basic)
+                          gfm adds tables, strikethrough and task lists
+  --max-length <n>        Truncate content to <n> characters at a block boundary
+  --max-tokens <n>        Truncate content to about <n> tokens (4 characters each)
+  -d, --data <plugins>    Data plugins to run
+  -o, --output <file>     Write output to file instead of stdout
+  --store                 Store the result in the database (requires --base-url)
+  --store-body            Also store the HTML (for handler test fixtures)
+  --ttl <duration>        TTL for stored record (default: 30d)
+                          Formats: 60, 60min, 6h, 10d, 3mo, 1y
+  --client <name>         Client/shard identifier for the stored record
+                          (also selects that client's site handlers)
+  --debug                 Include debug info in response (scope resolution)
+  -h, --help              Show this help message
+
+Scopes, formats and data plugins are the same as for 'webcontent fetch --help'.
+
+Examples:
+  webcontent extract --file page.html
+  curl -s https://example.com | webcontent extract --base-url https://example.com
+  webcontent extract --file page.html -s 'selector:article' -f text
+  webcontent extract --file page.html --base-url https://example.com/a --store --ttl 7d
+`);
+}
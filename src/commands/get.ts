@@ -1,6 +1,7 @@
 import { parseArgs } from "util";
 import { DatabaseService, type StoredPage } from "../services";
 import { logRequest } from "../utils";
+import { fetchCommand } from "./fetch";
 
 interface GetOptions {
   id: string;
@@ -61,6 +62,12 @@ function storedPageToResponse(page: StoredPage): PageResponse["response"] {
 }
 
 export async function getCommand(args: string[]): Promise<void> {
+  // By URL: cached fetch with the fetch command's options
+  if (args.some((arg) => arg === "--url" || arg.startsWith("--url="))) {
+    await fetchCommand(args, { cache: true });
+    return;
+  }
+
   const { values } = parseArgs({
     args,
     options: {
@@ -88,7 +95,7 @@ export async function getCommand(args: string[]): Promise<void> {
   }
 
   if (!values.id) {
-    console.error("Error: --id is required");
+    console.error("Error: --id or --url is required");
     showGetHelp();
     process.exit(1);
   }
@@ -244,21 +251,36 @@ async function executeGets(options: GetsOptions): Promise<void> {
 
 function showGetHelp(): void {
   console.log(`
-webcontent get - Get a stored page by ID
+webcontent get - Get a stored page by ID, or by URL (cached fetch)
 
 Usage:
   webcontent get --id <page-id> [options]
+  webcontent get --url <url> [fetch options]
 
-Options:
-  --id <id>          Page ID to retrieve (required)
+By ID:
+  --id <id>          Page ID to retrieve
   --client <name>    Client/shard identifier (for isolation)
   -o, --output <file>  Write output to file instead of stdout
   -h, --help         Show this help message
 
+By URL:
+  Returns the newest unexpired page stored for the URL with the same scope,
+  format, include fields, data plugins and client ("cached": true). Otherwise
+  the page is fetched, stored and returned ("cached": false).
+
+  --url <url>        URL to get
+  --max-age <duration>  Only use pages stored within this duration (e.g. 6h)
+  --ttl <duration>   TTL for the record if fetched (default: 30d)
+  --store-body       Also store the HTML body if fetched (handler test fixtures)
+  --client <name>    Client/shard identifier of the stored page
+  All other options of 'webcontent fetch' (see 'webcontent fetch --help')
+
 Examples:
   webcontent get --id abc123def456
   webcontent get --id abc123def456 --client my-app
   webcontent get --id abc123def456 -o page.json
+  webcontent get --url https://example.com
+  webcontent get --url https://example.com -d headings --max-age 1h
 `);
 }
 
@@ -0,0 +1,461 @@
+import { parseArgs } from "util";
+import { dirname, resolve } from "path";
+import {
+  DatabaseService,
+  parseScopeArg,
+  validateSiteHandler,
+  validateHandlerFixtures,
+  loadHandlerFixtures,
+  runHandlerTest,
+  CONTENT_FORMATS,
+  type ContentFormat,
+  type HandlerFixtureInput,
+  type SiteHandler,
+} from "../services";
+import { logRequest } from "../utils";
+
+interface HandlersResponse {
+  count: number;
+  results: SiteHandler[];
+}
+
+const HANDLER_OPTIONS = {
+  file: {
+    type: "string",
+    short: "f",
+  },
+  id: {
+    type: "string",
+  },
+  name: {
+    type: "string",
+  },
+  description: {
+    type: "string",
+  },
+  hostname: {
+    type: "string",
+  },
+  "path-include": {
+    type: "string",
+  },
+  "path-exclude": {
+    type: "string",
+  },
+  scope: {
+    type: "string",
+    short: "s",
+  },
+  exclude: {
+    type: "string",
+    short: "x",
+  },
+  enable: {
+    type: "boolean",
+  },
+  disable: {
+    type: "boolean",
+  },
+  client: {
+    type: "string",
+  },
+  fixtures: {
+    type: "string",
+  },
+  html: {
+    type: "string",
+  },
+  page: {
+    type: "string",
+  },
+  format: {
+    type: "string",
+  },
+  output: {
+    type: "string",
+    short: "o",
+  },
+  help: {
+    type: "boolean",
+    short: "h",
+  },
+} as const;
+
+type HandlerValues = ReturnType<typeof parseHandlerArgs>["values"];
+
+function parseHandlerArgs(args: string[]) {
+  return parseArgs({
+    args,
+    options: HANDLER_OPTIONS,
+    allowPositionals: true,
+  });
+}
+
+export async function handlerCommand(args: string[]): Promise<void> {
+  const subcommand = args[0];
+
+  if (!subcommand || subcommand === "-h" || subcommand === "--help") {
+    showHandlerHelp();
+    return;
+  }
+
+  let parsed: ReturnType<typeof parseHandlerArgs>;
+  try {
+    parsed = parseHandlerArgs(args.slice(1));
+  } catch (error) {
+    console.error("Error:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  const { values, positionals } = parsed;
+
+  if (values.help) {
+    showHandlerHelp();
+    return;
+  }
+
+  try {
+    switch (subcommand) {
+      case "add":
+        await executeAdd(values);
+        break;
+      case "list":
+        await executeList(values);
+        break;
+      case "show":
+        await executeShow(requireId(positionals), values);
+        break;
+      case "update":
+        await executeUpdate(requireId(positionals), values);
+        break;
+      case "remove":
+        await executeRemove(requireId(positionals), values);
+        break;
+      case "test":
+        await executeTest(requireId(positionals), values);
+        break;
+      default:
+        console.error(`Unknown handler command: ${subcommand}`);
+        showHandlerHelp();
+        process.exit(1);
+    }
+  } catch (error) {
+    console.error("Error:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+function requireId(positionals: string[]): string {
+  const id = positionals[0];
+  if (!id) {
+    console.error("Error: Handler ID is required");
+    showHandlerHelp();
+    process.exit(1);
+  }
+  return id;
+}
+
+/**
+ * Build a handler payload from --file (JSON) with individual flags taking precedence.
+ */
+async function buildHandlerInput(values: HandlerValues): Promise<Record<string, unknown>> {
+  let input: Record<string, unknown> = {};
+
+  if (values.file) {
+    const file = Bun.file(values.file);
+    if (!(await file.exists())) {
+      throw new Error(`File not found: ${values.file}`);
+    }
+    try {
+      input = await file.json();
+    } catch {
+      throw new Error("--file must contain valid JSON");
+    }
+  }
+
+  if (values.id !== undefined) input.id = values.id;
+  if (values.name !== undefined) input.name = values.name;
+  if (values.description !== undefined) input.description = values.description;
+  if (values.hostname !== undefined) input.hostname = values.hostname;
+  if (values["path-include"] !== undefined) {
+    input.pathInclude = splitList(values["path-include"]);
+  }
+  if (values["path-exclude"] !== undefined) {
+    input.pathExclude = splitList(values["path-exclude"]);
+  }
+  if (values.scope !== undefined) {
+    input.scope = parseScopeArg(values.scope, values.exclude);
+  }
+  if (values.enable) input.enabled = true;
+  if (values.disable) input.enabled = false;
+
+  return input;
+}
+
+function splitList(value: string): string[] {
+  return value.split(",").map((s) => s.trim()).filter(Boolean);
+}
+
+async function openDatabase(): Promise<DatabaseService> {
+  const db = new DatabaseService();
+  await db.init();
+  return db;
+}
+
+async function executeAdd(values: HandlerValues): Promise<void> {
+  const input = validateSiteHandler(await buildHandlerInput(values));
+  const db = await openDatabase();
+
+  if (input.id && (await db.getHandlerById(input.id))) {
+    throw new Error(`Handler "${input.id}" already exists`);
+  }
+
+  const handler = await db.storeHandler({
+    ...input,
+    client: values.client || null,
+  });
+
+  logRequest({
+    timestamp: handler.createdAt,
+    command: "handler add",
+    id: handler.id,
+  });
+
+  await writeOutput(handler, values.output);
+}
+
+async function executeList(values: HandlerValues): Promise<void> {
+  const db = await openDatabase();
+  const handlers = await db.listHandlers({
+    client: values.client,
+    hostname: values.hostname,
+  });
+
+  const response: HandlersResponse = {
+    count: handlers.length,
+    results: handlers,
+  };
+
+  logRequest({
+    timestamp: Date.now(),
+    command: "handler list",
+    count: handlers.length,
+  });
+
+  await writeOutput(response, values.output);
+}
+
+async function executeShow(id: string, values: HandlerValues): Promise<void> {
+  const db = await openDatabase();
+  const handler = await db.getHandlerById(id, values.client);
+
+  if (!handler) {
+    console.error(`Error: Handler not found with ID: ${id}`);
+    process.exit(1);
+  }
+
+  logRequest({
+    timestamp: Date.now(),
+    command: "handler show",
+    id,
+  });
+
+  await writeOutput(handler, values.output);
+}
+
+async function executeUpdate(id: string, values: HandlerValues): Promise<void> {
+  const changes = validateSiteHandler(await buildHandlerInput(values), true);
+
+  if (changes.id !== undefined && changes.id !== id) {
+    throw new Error("Handler ID cannot be changed");
+  }
+
+  const db = await openDatabase();
+  const handler = await db.updateHandler(id, changes, values.client);
+
+  if (!handler) {
+    console.error(`Error: Handler not found with ID: ${id}`);
+    process.exit(1);
+  }
+
+  logRequest({
+    timestamp: handler.updatedAt,
+    command: "handler update",
+    id,
+  });
+
+  await writeOutput(handler, values.output);
+}
+
+async function executeRemove(id: string, values: HandlerValues): Promise<void> {
+  const db = await openDatabase();
+  const deleted = await db.deleteHandler(id, values.client);
+
+  if (!deleted) {
+    console.error(`Error: Handler not found with ID: ${id}`);
+    process.exit(1);
+  }
+
+  logRequest({
+    timestamp: Date.now(),
+    command: "handler remove",
+    id,
+  });
+
+  await writeOutput({ deleted: true, id }, values.output);
+}
+
+/**
+ * Collect fixtures from --fixtures (JSON array), --html (files) and --page (stored page IDs).
+ * File paths in a fixtures file are resolved relative to that file.
+ */
+async function buildFixtureInputs(values: HandlerValues): Promise<HandlerFixtureInput[]> {
+  const inputs: unknown[] = [];
+
+  if (values.fixtures) {
+    const file = Bun.file(values.fixtures);
+    if (!(await file.exists())) {
+      throw new Error(`File not found: ${values.fixtures}`);
+    }
+    let parsed: unknown;
+    try {
+      parsed = await file.json();
+    } catch {
+      throw new Error("--fixtures must contain a valid JSON array");
+    }
+    const baseDir = dirname(resolve(values.fixtures));
+    for (const item of Array.isArray(parsed) ? parsed : [parsed]) {
+      const fixture = item as HandlerFixtureInput;
+      if (typeof fixture?.file === "string") {
+        fixture.file = resolve(baseDir, fixture.file);
+      }
+      inputs.push(fixture);
+    }
+  }
+
+  if (values.html) {
+    inputs.push(...splitList(values.html).map((file) => ({ file })));
+  }
+
+  if (values.page) {
+    inputs.push(...splitList(values.page).map((pageId) => ({ pageId })));
+  }
+
+  if (inputs.length === 0) {
+    throw new Error("At least one of --fixtures, --html, or --page is required");
+  }
+
+  return validateHandlerFixtures(inputs, { allowFiles: true });
+}
+
+async function executeTest(id: string, values: HandlerValues): Promise<void> {
+  const format = (values.format as ContentFormat) || "markdown";
+  if (!CONTENT_FORMATS.includes(format)) {
+    throw new Error('Format must be "html", "markdown", "text", or "json"');
+  }
+
+  const inputs = await buildFixtureInputs(values);
+  const db = await openDatabase();
+  const handler = await db.getHandlerById(id, values.client);
+
+  if (!handler) {
+    console.error(`Error: Handler not found with ID: ${id}`);
+    process.exit(1);
+  }
+
+  const fixtures = await loadHandlerFixtures(inputs, handler, {
+    db,
+    client: values.client,
+    readFile: async (path) => {
+      const file = Bun.file(path);
+      if (!(await file.exists())) {
+        throw new Error(`File not found: ${path}`);
+      }
+      return file.text();
+    },
+  });
+  const report = await runHandlerTest(handler, fixtures, format);
+
+  logRequest({
+    timestamp: Date.now(),
+    command: "handler test",
+    id,
+    count: report.summary.total,
+  });
+
+  for (const fixture of report.fixtures) {
+    console.error(`${fixture.status.toUpperCase().padEnd(5)} ${fixture.name} (${fixture.durationMs}ms)`);
+  }
+
+  await writeOutput(report, values.output);
+
+  // Non-zero exit so the command can gate CI pipelines
+  if (!report.passed) {
+    process.exit(1);
+  }
+}
+
+async function writeOutput(data: unknown, output?: string): Promise<void> {
+  const outputText = JSON.stringify(data, null, 2);
+
+  if (output) {
+    await Bun.write(output, outputText);
+    console.error(`Output written to ${output}`);
+  } else {
+    console.log(outputText);
+  }
+}
+
+function showHandlerHelp(): void {
+  console.log(`
+webcontent handler - Manage site handlers
+
+Usage:
+  webcontent handler add [options]
+  webcontent handler list [--hostname <host>] [--client <name>]
+  webcontent handler show <id> [--client <name>]
+  webcontent handler update <id> [options]
+  webcontent handler remove <id> [--client <name>]
+  webcontent handler test <id> [test options]
+
+Options:
+  -f, --file <path>         Handler definition as JSON file (flags override fields)
+  --id <id>                 Handler ID (default: generated)
+  --name <text>             Handler name
+  --description <text>      Handler description
+  --hostname <host>         Hostname pattern: example.com or *.example.com
+  --path-include <globs>    Comma-separated path patterns to include
+  --path-exclude <globs>    Comma-separated path patterns to exclude
+  -s, --scope <scope>       Selector or function scope (same syntax as fetch --scope)
+  -x, --exclude <sel>       CSS selectors to exclude (for selector scope)
+  --enable                  Enable the handler
+  --disable                 Disable the handler
+  --client <name>           Client owning the handler (default: shared)
+  -o, --output <file>       Write output to file instead of stdout
+  -h, --help                Show this help message
+
+Test Options:
+  --fixtures <file>         JSON array of fixtures:
+                            {name?, html|file|pageId, url?, expected?}
+  --html <files>            Comma-separated HTML files (no expected output)
+  --page <ids>              Comma-separated stored page IDs (no expected output)
+  --format <fmt>            Selector output format: html | markdown | text | json (default: markdown)
+  Exits with status 1 if any fixture fails or errors.
+
+Path Patterns:
+  /blog/*                   One path segment
+  /docs/**                  Any depth
+  /                         Exact path
+
+Examples:
+  webcontent handler add --file handlers/hn-item.json
+  webcontent handler add --id hn-item --name "Hacker News Item" \\
+    --hostname news.ycombinator.com --path-include '/item' -s 'selector:.fatitem' -x '.reply'
+  webcontent handler list --hostname news.ycombinator.com
+  webcontent handler show hn-item
+  webcontent handler update hn-item --disable
+  webcontent handler remove hn-item
+  webcontent handler test hn-item --fixtures fixtures/hn-item.json
+  webcontent handler test hn-item --html saved/item1.html,saved/item2.html
+`);
+}
@@ -1,3 +1,6 @@
 export { fetchCommand } from "./fetch";
+export { extractCommand } from "./extract";
 export { storeCommand } from "./store";
 export { getCommand, getsCommand } from "./get";
+export { refreshCommand } from "./refresh";
+export { handlerCommand } from "./handler";
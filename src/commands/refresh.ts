@@ -0,0 +1,182 @@
+import { parseArgs } from "util";
+import {
+  DatabaseService,
+  WebFetcher,
+  FetchError,
+  RobotsError,
+  DocumentError,
+  refreshPage,
+  buildRefreshOptions,
+  type StoredPage,
+  type WebFetchOptions,
+} from "../services";
+import { parseTtl, logRequest } from "../utils";
+
+interface RefreshOptions {
+  id: string;
+  client?: string;
+  ttl?: number;
+  output?: string;
+}
+
+interface RefreshResponse {
+  request: { id: string };
+  response: {
+    id: string;
+    timestamp: number;
+    url: string;
+    status: number;
+    meta?: any;
+    content?: string;
+    data?: any;
+    options?: any;
+    cached: boolean;
+    revalidated: boolean;
+    deleteAt: number;
+  };
+}
+
+export async function refreshCommand(args: string[]): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      id: {
+        type: "string",
+      },
+      client: {
+        type: "string",
+      },
+      ttl: {
+        type: "string",
+      },
+      output: {
+        type: "string",
+        short: "o",
+      },
+      help: {
+        type: "boolean",
+        short: "h",
+      },
+    },
+    allowPositionals: false,
+  });
+
+  if (values.help) {
+    showRefreshHelp();
+    return;
+  }
+
+  if (!values.id) {
+    console.error("Error: --id is required");
+    showRefreshHelp();
+    process.exit(1);
+  }
+
+  const options: RefreshOptions = {
+    id: values.id,
+    client: values.client,
+    ttl: parseTtl(values.ttl),
+    output: values.output,
+  };
+
+  await executeRefresh(options);
+}
+
+async function executeRefresh(options: RefreshOptions): Promise<void> {
+  try {
+    const db = new DatabaseService();
+    await db.init();
+
+    const page = await db.getPageById(options.id, options.client);
+
+    if (!page) {
+      console.error(`Error: Page not found with ID: ${options.id}`);
+      process.exit(1);
+    }
+
+    const fetchOptions: WebFetchOptions = await buildRefreshOptions(page);
+    const refreshed = await refreshPage(db, page, {
+      fetcher: new WebFetcher({ robots: db }),
+      fetchOptions,
+      ttl: options.ttl,
+    });
+
+    const response: RefreshResponse = {
+      request: { id: options.id },
+      response: {
+        ...pageFields(refreshed.page),
+        cached: false,
+        revalidated: refreshed.revalidated,
+        deleteAt: refreshed.page.deleteAt,
+      },
+    };
+
+    logRequest({
+      timestamp: Date.now(),
+      command: "refresh",
+      url: page.url,
+      id: page.id,
+      status: refreshed.fetch.status,
+    });
+
+    const outputText = JSON.stringify(response, null, 2);
+
+    if (options.output) {
+      await Bun.write(options.output, outputText);
+      console.error(`Output written to ${options.output}`);
+    } else {
+      console.log(outputText);
+    }
+  } catch (error) {
+    if (error instanceof FetchError) {
+      console.error(`Error: ${error.message} (${error.code}, ${error.attempts} attempt(s))`);
+      process.exit(1);
+    }
+    if (error instanceof RobotsError || error instanceof DocumentError) {
+      console.error(`Error: ${error.message} (${error.code})`);
+      process.exit(1);
+    }
+    console.error("Error:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+function pageFields(page: StoredPage) {
+  return {
+    id: page.id,
+    timestamp: page.timestamp,
+    url: page.url,
+    status: page.status,
+    meta: page.meta,
+    content: page.content || undefined,
+    data: page.data,
+    options: page.options,
+  };
+}
+
+function showRefreshHelp(): void {
+  console.log(`
+webcontent refresh - Re-fetch a stored page, keeping its ID
+
+Usage:
+  webcontent refresh --id <page-id> [options]
+
+The page is fetched again with its stored scope, format and fetch options
+(redacted secrets are restored from its profile). If the page was stored with
+an ETag or Last-Modified header, a conditional request is sent: on 304 Not
+Modified only the expiration is extended ("revalidated": true), otherwise the
+content is extracted and stored again ("revalidated": false).
+
+Options:
+  --id <id>          Page ID to refresh (required)
+  --client <name>    Client/shard identifier (for isolation)
+  --ttl <duration>   New TTL from now (default: the page's original TTL)
+                     Formats: 60, 60min, 6h, 10d, 3mo, 1y
+  -o, --output <file>  Write output to file instead of stdout
+  -h, --help         Show this help message
+
+Examples:
+  webcontent refresh --id abc123def456
+  webcontent refresh --id abc123def456 --ttl 7d
+`);
+}
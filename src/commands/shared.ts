@@ -0,0 +1,215 @@
+/**
+ * Shared Command Helpers
+ * Options, output shapes, extraction setup and page storage used by the
+ * commands that extract content (fetch, get --url, extract).
+ */
+
+import {
+  DatabaseService,
+  isHandlerScope,
+  type ContentFormat,
+  type ContentLimits,
+  type MarkdownFlavor,
+  type PageMeta,
+  type PageData,
+  type StoredPage,
+  type Scope,
+  type ScopeResolution,
+  type ExtractOptions,
+  type MainCandidate,
+} from "../services";
+import type { DataRequest, DataResponse } from "../plugins";
+import { DEFAULT_TTL } from "../utils";
+
+export interface ResponseFields {
+  headers: boolean;
+  body: boolean;
+  meta: boolean;
+  content: boolean;
+}
+
+/** Options of the content commands, after validation */
+export interface ContentCommandOptions {
+  scope: Scope;
+  format: ContentFormat;
+  relativeUrls: boolean;
+  markdownFlavor: MarkdownFlavor;
+  limits: ContentLimits;
+  output?: string;
+  include: ResponseFields;
+  data: DataRequest | null;
+  debug: boolean;
+  store: {
+    enabled: boolean;
+    ttl?: number;
+    client?: string;
+    /** Keep the HTML the content was extracted from (handler test fixtures) */
+    body?: boolean;
+  };
+}
+
+/** Content options echoed in `request.options` */
+export interface ContentRequestOptions {
+  scope: Scope;
+  format: ContentFormat;
+  relativeUrls?: boolean;
+  markdownFlavor?: MarkdownFlavor;
+  maxLength?: number;
+  maxTokens?: number;
+  data?: DataRequest;
+  store?: {
+    ttl?: string | number;
+    client?: string;
+    body?: boolean;
+  };
+}
+
+export interface ScopeDebugInfo {
+  requested: Scope;
+  used: Scope;
+  resolved: boolean;
+  handlerId?: string;
+  /** Main content candidate (main scope) */
+  main?: MainCandidate | null;
+}
+
+/** Result fields of extracted content */
+export interface ContentResult {
+  id?: string;
+  timestamp: number;
+  body?: string;
+  meta?: PageMeta;
+  content?: string;
+  /** Set when the content was cut to maxLength / maxTokens (not stored) */
+  truncated?: boolean;
+  originalLength?: number;
+  droppedSections?: string[];
+  data?: DataResponse;
+}
+
+export function parseIncludeFields(include?: string): ResponseFields {
+  // Default: meta and content
+  const defaults: ResponseFields = {
+    headers: false,
+    body: false,
+    meta: true,
+    content: true,
+  };
+
+  if (!include) return defaults;
+
+  // Parse comma-separated string or JSON object
+  if (include.startsWith("{")) {
+    try {
+      const parsed = JSON.parse(include);
+      return {
+        headers: !!parsed.headers,
+        body: !!parsed.body,
+        meta: !!parsed.meta,
+        content: !!parsed.content,
+      };
+    } catch {
+      return defaults;
+    }
+  }
+
+  // Comma-separated format
+  const fields = include.toLowerCase().split(",").map((s) => s.trim());
+  return {
+    headers: fields.includes("headers"),
+    body: fields.includes("body"),
+    meta: fields.includes("meta"),
+    content: fields.includes("content"),
+  };
+}
+
+export function toNumber(value?: string): number | undefined {
+  return value !== undefined ? Number(value) : undefined;
+}
+
+/** Content options for `request.options` (defaults are left out) */
+export function contentRequestOptions(options: ContentCommandOptions): ContentRequestOptions {
+  return {
+    scope: options.scope,
+    format: options.format,
+    ...(options.relativeUrls && { relativeUrls: true }),
+    ...(options.markdownFlavor !== "basic" && { markdownFlavor: options.markdownFlavor }),
+    ...options.limits,
+    ...(options.data && { data: options.data }),
+  };
+}
+
+/** Content options stored with a page, with the resolved scope */
+export function contentPageOptions(
+  options: ContentCommandOptions,
+  scopeResolution: ScopeResolution | undefined
+): Record<string, unknown> {
+  return {
+    scope: options.scope,
+    scopeUsed: scopeResolution?.scopeUsed,
+    scopeResolved: scopeResolution?.scopeResolved,
+    format: options.format,
+    ...(options.relativeUrls && { relativeUrls: true }),
+    ...(options.markdownFlavor !== "basic" && { markdownFlavor: options.markdownFlavor }),
+    ...options.limits,
+    ...(options.data && { data: options.data }),
+  };
+}
+
+export function scopeDebugInfo(requested: Scope, scopeResolution: ScopeResolution): ScopeDebugInfo {
+  return {
+    requested,
+    used: scopeResolution.scopeUsed,
+    resolved: scopeResolution.scopeResolved,
+    ...(scopeResolution.handlerId && {
+      handlerId: scopeResolution.handlerId,
+    }),
+    ...(scopeResolution.main !== undefined && { main: scopeResolution.main }),
+  };
+}
+
+/**
+ * Build extraction options. Site handlers are loaded from the database for
+ * handler scopes, and for "auto" when a database is configured.
+ * The --client value limits lookup to that client's and shared handlers.
+ */
+export async function getExtractOptions(scope: Scope, client?: string): Promise<ExtractOptions> {
+  const needsHandlers =
+    isHandlerScope(scope) || (scope === "auto" && !!process.env.TURSO_URL);
+
+  if (!needsHandlers) {
+    return {};
+  }
+
+  const db = new DatabaseService();
+  await db.init();
+  return { handlers: db, client };
+}
+
+/**
+ * Store a page under its URL; domain, hostname, path and the expiry (TTL in
+ * seconds) are filled in.
+ */
+export async function storeContentPage(
+  page: Omit<PageData, "domain" | "hostname" | "path" | "timestamp" | "deleteAt">,
+  ttl?: number
+): Promise<StoredPage> {
+  const db = new DatabaseService();
+  await db.init();
+
+  const urlObj = new URL(page.url);
+  const domainParts = urlObj.hostname.split(".");
+  const domain = domainParts.slice(-2).join("."); // Basic domain extraction
+
+  const timestamp = Date.now();
+  const deleteAt = timestamp + (ttl || DEFAULT_TTL) * 1000;
+
+  return db.storePage({
+    ...page,
+    domain,
+    hostname: urlObj.hostname,
+    path: urlObj.pathname,
+    timestamp,
+    deleteAt,
+  });
+}
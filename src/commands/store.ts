@@ -161,6 +161,7 @@ async function executeStore(input: StoreInput): Promise<void> {
       options: input.options || {},
       timestamp,
       deleteAt,
+      body: input.body || null,
     };
 
     const storedPage = await db.storePage(pageData);
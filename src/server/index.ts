@@ -1,13 +1,56 @@
 import {
   WebFetcher,
+  FetchError,
+  loadUrlPolicy,
+  UrlPolicyError,
+  RobotsError,
+  type RobotsCheck,
+  refreshPage,
+  buildRefreshOptions,
+  validateWebFetchOptions,
+  checkProxyOverride,
+  redactFetchOptions,
+  parseHeaderStrings,
+  parseCookieString,
+  loadConfig,
+  resolveProfile,
+  applyProfile,
+  type FetchProfile,
+  type RedirectHop,
+  type CharsetSource,
+  type WebFetchOptions,
   parseHtmlMeta,
+  parseDocument,
+  extractDocument,
   extractWithScope,
+  DocumentError,
+  type DocumentType,
   FunctionScopeError,
+  HandlerScopeError,
+  CONTENT_FORMATS,
+  MARKDOWN_FLAVORS,
+  CHUNK_FORMATS,
+  chunkContent,
+  validateChunkOptions,
+  validateContentLimits,
+  type ChunkOptions,
+  type ContentLimits,
+  type ContentChunk,
   type ContentFormat,
+  type MarkdownFlavor,
   type PageMeta,
   type StoredPage,
   type Scope,
+  type ScopeResolution,
+  type ExtractOptions,
+  type MainCandidate,
   validateScope,
+  isHandlerScope,
+  validateSiteHandler,
+  validateHandlerFixtures,
+  loadHandlerFixtures,
+  runHandlerTest,
+  type SiteHandler,
 } from "../services";
 import {
   parseDataParam,
@@ -15,10 +58,12 @@ import {
   type DataRequest,
   type DataResponse,
 } from "../plugins";
-import { DatabaseService, type PageData } from "../services";
+import { DatabaseService, computeOptionsHash, type PageData } from "../services";
 import { parseTtl, DEFAULT_TTL, logServerRequest } from "../utils";
 
 const PORT = parseInt(process.env.PORT || "233");
+/** SSRF protection for all server-side fetches (WEBCONTENT_ALLOW_HOSTS / WEBCONTENT_DENY_HOSTS) */
+const URL_POLICY = loadUrlPolicy();
 
 interface ResponseFields {
   headers: boolean;
@@ -27,13 +72,20 @@ interface ResponseFields {
   content: boolean;
 }
 
-interface ApiRequestOptions {
+interface ApiRequestOptions extends WebFetchOptions {
   scope: Scope;
   format: ContentFormat;
+  relativeUrls?: boolean;
+  markdownFlavor?: MarkdownFlavor;
+  chunk?: ChunkOptions;
+  maxLength?: number;
+  maxTokens?: number;
+  profile?: string;
   data?: DataRequest;
   store?: {
     ttl?: string | number;
     client?: string;
+    body?: boolean;
   };
 }
 
@@ -48,6 +100,20 @@ interface DebugInfo {
     used: Scope;
     resolved: boolean;
     handlerId?: string;
+    /** Main content candidate (main scope) */
+    main?: MainCandidate | null;
+  };
+  fetch?: {
+    attempts: number;
+    queueWait: number;
+    encodingSource: CharsetSource;
+    proxy: string | null;
+    robots: RobotsCheck | null;
+  };
+  document?: {
+    type: DocumentType;
+    /** PDF page count */
+    pages?: number;
   };
 }
 
@@ -56,11 +122,19 @@ interface ApiResult_Result {
   timestamp: number;
   url: string;
   status: number;
-  redirect: string | null;
+  /** redirect, redirects and encoding are not stored, so not set for cached results */
+  redirect?: string | null;
+  redirects?: RedirectHop[];
+  encoding?: string;
   headers?: Record<string, string>;
   body?: string;
   meta?: PageMeta;
   content?: string;
+  /** Set when the content was cut to maxLength / maxTokens (not stored) */
+  truncated?: boolean;
+  originalLength?: number;
+  droppedSections?: string[];
+  chunks?: ContentChunk[];
   data?: DataResponse;
   cached?: boolean;
 }
@@ -71,12 +145,25 @@ interface ApiOutput {
   debug?: DebugInfo;
 }
 
-interface FetchRequestOptions {
+interface FetchRequestOptions extends WebFetchOptions {
   scope?: Scope;
   format?: ContentFormat;
+  /** Keep relative URLs in content (default: resolve against the final URL) */
+  relativeUrls?: boolean;
+  /** Markdown flavor for the markdown format (default: basic) */
+  markdownFlavor?: MarkdownFlavor;
+  /** Split content into chunks: true, a size, or { size, unit, overlap } */
+  chunk?: boolean | number | Partial<ChunkOptions>;
+  /** Truncate content to this many characters (at a block boundary) */
+  maxLength?: number;
+  /** Truncate content to about this many tokens (4 characters each) */
+  maxTokens?: number;
+  profile?: string;
   data?: string | DataRequest;
   debug?: boolean;
-  store?: boolean | { ttl?: string | number; client?: string };
+  store?: boolean | { ttl?: string | number; client?: string; body?: boolean };
+  /** Cached fetch (/get): only use pages stored within this duration */
+  maxAge?: string | number;
 }
 
 interface FetchRequest {
@@ -84,6 +171,50 @@ interface FetchRequest {
   options?: FetchRequestOptions;
   include?: string | ResponseFields;
   debug?: boolean;
+  /** Client for site handlers, storage and cached fetches (/get); options.store.client wins */
+  client?: string;
+}
+
+interface ExtractRequest {
+  /** HTML to extract from (instead of fetching a URL) */
+  html: string;
+  /** URL of the page: site handler matching and storage */
+  baseUrl?: string;
+  options?: {
+    scope?: Scope;
+    format?: ContentFormat;
+    relativeUrls?: boolean;
+    markdownFlavor?: MarkdownFlavor;
+    maxLength?: number;
+    maxTokens?: number;
+    data?: string | DataRequest;
+    debug?: boolean;
+    store?: boolean | { ttl?: string | number; client?: string; body?: boolean };
+  };
+  include?: string | ResponseFields;
+  debug?: boolean;
+  /** Client for site handlers and storage; options.store.client wins */
+  client?: string;
+}
+
+interface ExtractOutput {
+  request: {
+    baseUrl: string | null;
+    options: Pick<ApiRequestOptions, "scope" | "format" | "relativeUrls" | "markdownFlavor" | "maxLength" | "maxTokens" | "data" | "store">;
+  };
+  result: {
+    id?: string;
+    timestamp: number;
+    url: string | null;
+    body?: string;
+    meta?: PageMeta;
+    content?: string;
+    truncated?: boolean;
+    originalLength?: number;
+    droppedSections?: string[];
+    data?: DataResponse;
+  };
+  debug?: Pick<DebugInfo, "scope">;
 }
 
 interface StoreRequest {
@@ -107,6 +238,13 @@ interface StoreResult {
   deleteAt: number;
 }
 
+interface RefreshRequest {
+  client?: string;
+  ttl?: string | number;
+  options?: Record<string, unknown>;
+  debug?: boolean;
+}
+
 interface GetByIdRequest {
   id: string;
   client?: string;
@@ -126,10 +264,30 @@ interface PageResponse {
     status: number;
     meta?: any;
     content?: string;
+    chunks?: ContentChunk[];
     data?: any;
     options?: any;
     cached: boolean;
+    revalidated?: boolean;
+    deleteAt?: number;
   };
+  debug?: DebugInfo;
+}
+
+interface HandlerRequest {
+  client?: string;
+  [key: string]: unknown;
+}
+
+interface HandlerTestRequest {
+  client?: string;
+  format?: ContentFormat;
+  fixtures: unknown;
+}
+
+interface HandlersResponse {
+  count: number;
+  results: SiteHandler[];
 }
 
 interface PagesResponse {
@@ -178,9 +336,114 @@ function parseIncludeFields(include?: string | ResponseFields): ResponseFields {
   };
 }
 
+/**
+ * Read fetcher options from GET /fetch query params.
+ * Values are converted to their JSON types and validated by validateWebFetchOptions().
+ */
+function parseFetchQueryParams(params: URLSearchParams): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  const followRedirects = params.get("followRedirects");
+  if (followRedirects !== null) {
+    result.followRedirects = followRedirects !== "false";
+  }
+
+  const respectRobots = params.get("respectRobots");
+  if (respectRobots !== null) {
+    result.respectRobots = respectRobots === "true";
+  }
+
+  for (const field of [
+    "maxRedirects",
+    "timeout",
+    "connectTimeout",
+    "maxBodySize",
+    "retries",
+    "retryDelay",
+  ]) {
+    const value = params.get(field);
+    if (value !== null) {
+      result[field] = Number(value);
+    }
+  }
+
+  const retryOn = params.get("retryOn");
+  if (retryOn !== null) {
+    result.retryOn = retryOn.split(",").filter(Boolean).map(Number);
+  }
+
+  const retryErrors = params.get("retryErrors");
+  if (retryErrors !== null) {
+    result.retryErrors = retryErrors.split(",").filter(Boolean);
+  }
+
+  // Repeatable: header=Name:%20value, cookie=name=value
+  const headers = params.getAll("header");
+  if (headers.length > 0) {
+    result.headers = parseHeaderStrings(headers);
+  }
+
+  const cookies = params.getAll("cookie");
+  if (cookies.length > 0) {
+    result.cookies = parseCookieString(cookies.join(";"));
+  }
+
+  const userAgent = params.get("userAgent");
+  if (userAgent !== null) {
+    result.userAgent = userAgent;
+  }
+
+  const auth = params.get("auth");
+  if (auth !== null) {
+    result.auth = auth;
+  }
+
+  // proxy=none connects directly, ignoring WEBCONTENT_PROXY
+  const proxy = params.get("proxy");
+  if (proxy !== null) {
+    result.proxy = proxy === "none" ? false : proxy;
+  }
+
+  const noProxy = params.get("noProxy");
+  if (noProxy !== null) {
+    result.noProxy = noProxy;
+  }
+
+  return result;
+}
+
+/**
+ * Upstream fetch failures: 504 for timeouts, 502 for everything else.
+ */
+function fetchErrorResponse(error: FetchError): Response {
+  return jsonResponse(
+    { error: error.message, code: error.code, attempts: error.attempts },
+    error.code === "timeout" ? 504 : 502
+  );
+}
+
+/** 403 for URLs rejected by the SSRF policy, including redirect targets */
+function urlPolicyErrorResponse(error: UrlPolicyError): Response {
+  return jsonResponse({ error: error.message, code: error.code, url: error.url }, 403);
+}
+
+/** 403 for URLs disallowed by robots.txt (respectRobots) */
+function robotsErrorResponse(error: RobotsError): Response {
+  return jsonResponse({ error: error.message, code: error.code, url: error.url, rule: error.rule }, 403);
+}
+
+/**
+ * 422 for fetched documents that cannot be parsed (e.g. a broken PDF),
+ * 400 for a scope the document type does not support
+ */
+function documentErrorResponse(error: DocumentError): Response {
+  const status = error.code === "unsupported_scope" ? 400 : 422;
+  return jsonResponse({ error: error.message, code: error.code, type: error.type }, status);
+}
+
 const CORS_HEADERS = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
   "Access-Control-Allow-Headers": "Content-Type",
 };
 
@@ -194,6 +457,52 @@ function jsonResponse(data: unknown, status = 200): Response {
   });
 }
 
+/** Result of a cached fetch (/get) served from a stored page */
+function storedPageToResult(page: StoredPage): ApiResult_Result {
+  return {
+    id: page.id,
+    timestamp: page.timestamp,
+    url: page.url,
+    status: page.status,
+    meta: page.meta,
+    content: page.content ?? undefined,
+    ...(page.chunks && { chunks: page.chunks }),
+    data: page.data,
+    cached: true,
+  };
+}
+
+/** Client in a JSON `store` query param (`store={"client":"..."}`) */
+function storeQueryClient(store: string | null): string | undefined {
+  if (!store?.startsWith("{")) return undefined;
+  try {
+    const parsed = JSON.parse(store);
+    return typeof parsed.client === "string" && parsed.client ? parsed.client : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** GET chunk parameters: chunk=true or chunk=<size>, plus chunkUnit and chunkOverlap */
+function parseChunkQueryParams(params: URLSearchParams): unknown {
+  const chunk = params.get("chunk");
+  if (chunk === null || chunk === "false") {
+    return undefined;
+  }
+  const overlap = params.get("chunkOverlap");
+  return {
+    size: chunk === "true" ? undefined : Number(chunk),
+    unit: params.get("chunkUnit") ?? undefined,
+    overlap: overlap !== null ? Number(overlap) : undefined,
+  };
+}
+
+/** POST /get with a url (and no id) is a cached fetch, handled with POST /fetch */
+async function isGetByUrlRequest(req: Request): Promise<boolean> {
+  const body = (await req.clone().json().catch(() => null)) as Partial<GetByIdRequest & FetchRequest> | null;
+  return !!body && !body.id && !!body.url;
+}
+
 function storedPageToResponse(page: StoredPage): PageResponse["response"] {
   return {
     id: page.id,
@@ -202,6 +511,7 @@ function storedPageToResponse(page: StoredPage): PageResponse["response"] {
     status: page.status,
     meta: page.meta,
     content: page.content || undefined,
+    ...(page.chunks && { chunks: page.chunks }),
     data: page.data,
     options: page.options,
     cached: true,
@@ -263,13 +573,100 @@ const server = Bun.serve({
       }
     }
 
-    // POST /get - Get single page by ID (alternative)
-    if (url.pathname === "/get" && req.method === "POST") {
+    // POST /pages/:id/refresh - Re-fetch a stored page in place (conditional request)
+    const refreshMatch = url.pathname.match(/^\/pages\/([a-zA-Z0-9_-]+)\/refresh$/);
+    if (refreshMatch && req.method === "POST") {
+      try {
+        const body = (await req.json().catch(() => ({}))) as RefreshRequest;
+        const id = refreshMatch[1];
+
+        await db.init();
+        const page = await db.getPageById(id, body.client);
+
+        if (!page) {
+          return jsonResponse({ error: "Page not found" }, 404);
+        }
+
+        let fetchOptions: WebFetchOptions;
+        try {
+          checkProxyOverride(body.options ?? {});
+          fetchOptions = await buildRefreshOptions(page, body.options);
+        } catch (error) {
+          return jsonResponse(
+            { error: error instanceof Error ? error.message : "Invalid fetch options" },
+            400
+          );
+        }
+
+        const fetcher = new WebFetcher({ urlPolicy: URL_POLICY, robots: db });
+        const refreshed = await refreshPage(db, page, {
+          fetcher,
+          fetchOptions,
+          ttl: parseTtl(body.ttl),
+        });
+
+        const response: PageResponse = {
+          request: { id },
+          response: {
+            ...storedPageToResponse(refreshed.page),
+            cached: false,
+            revalidated: refreshed.revalidated,
+            deleteAt: refreshed.page.deleteAt,
+          },
+        };
+        if (body.debug) {
+          const result = refreshed.fetch;
+          response.debug = {
+            fetch: {
+              attempts: result.attempts,
+              queueWait: result.queueWait,
+              encodingSource: result.encodingSource,
+              proxy: result.proxy,
+              robots: result.robots,
+            },
+          };
+        }
+
+        logServerRequest({
+          timestamp: Date.now(),
+          command: "POST /pages/:id/refresh",
+          url: page.url,
+          id: page.id,
+          status: refreshed.fetch.status,
+        });
+
+        return jsonResponse(response);
+      } catch (error) {
+        if (error instanceof FunctionScopeError || error instanceof HandlerScopeError) {
+          return jsonResponse({ error: error.message }, 400);
+        }
+        if (error instanceof UrlPolicyError) {
+          return urlPolicyErrorResponse(error);
+        }
+        if (error instanceof RobotsError) {
+          return robotsErrorResponse(error);
+        }
+        if (error instanceof FetchError) {
+          return fetchErrorResponse(error);
+        }
+        if (error instanceof DocumentError) {
+          return documentErrorResponse(error);
+        }
+        console.error("Error:", error);
+        return jsonResponse(
+          { error: error instanceof Error ? error.message : "Internal server error" },
+          500
+        );
+      }
+    }
+
+    // POST /get - Get single page by ID (alternative); by URL it is a cached fetch (below)
+    if (url.pathname === "/get" && req.method === "POST" && !(await isGetByUrlRequest(req))) {
       try {
         const body = await req.json() as GetByIdRequest;
 
         if (!body.id) {
-          return jsonResponse({ error: "ID is required" }, 400);
+          return jsonResponse({ error: "ID or URL is required" }, 400);
         }
 
         await db.init();
@@ -356,8 +753,190 @@ const server = Bun.serve({
       }
     }
 
-    // Fetch endpoint
-    if (url.pathname === "/fetch" && req.method === "POST") {
+    // GET /handlers - List site handlers
+    if (url.pathname === "/handlers" && req.method === "GET") {
+      try {
+        await db.init();
+        // Without a client, only shared handlers are visible
+        const client = url.searchParams.get("client") || null;
+        const hostname = url.searchParams.get("hostname") || undefined;
+
+        const handlers = await db.listHandlers({ client, hostname });
+
+        const response: HandlersResponse = {
+          count: handlers.length,
+          results: handlers,
+        };
+
+        logServerRequest({
+          timestamp: Date.now(),
+          command: "GET /handlers",
+          count: handlers.length,
+        });
+
+        return jsonResponse(response);
+      } catch (error) {
+        console.error("Error:", error);
+        return jsonResponse(
+          { error: error instanceof Error ? error.message : "Internal server error" },
+          500
+        );
+      }
+    }
+
+    // POST /handlers - Create site handler
+    if (url.pathname === "/handlers" && req.method === "POST") {
+      try {
+        const body = await req.json() as HandlerRequest;
+
+        let input;
+        try {
+          input = validateSiteHandler(body);
+        } catch (error) {
+          return jsonResponse(
+            { error: error instanceof Error ? error.message : "Invalid handler" },
+            400
+          );
+        }
+
+        await db.init();
+
+        if (input.id && (await db.getHandlerById(input.id))) {
+          return jsonResponse({ error: `Handler "${input.id}" already exists` }, 409);
+        }
+
+        const handler = await db.storeHandler({
+          ...input,
+          client: body.client || null,
+        });
+
+        logServerRequest({
+          timestamp: handler.createdAt,
+          command: "POST /handlers",
+          id: handler.id,
+        });
+
+        return jsonResponse(handler, 201);
+      } catch (error) {
+        console.error("Error:", error);
+        return jsonResponse(
+          { error: error instanceof Error ? error.message : "Internal server error" },
+          500
+        );
+      }
+    }
+
+    // POST /handlers/:id/test - Run a handler against fixture HTML
+    const handlerTestMatch = url.pathname.match(/^\/handlers\/([a-zA-Z0-9_-]+)\/test$/);
+    if (handlerTestMatch && req.method === "POST") {
+      try {
+        const id = handlerTestMatch[1];
+        const body = await req.json() as HandlerTestRequest;
+        const format = body.format || "markdown";
+
+        if (!CONTENT_FORMATS.includes(format)) {
+          return jsonResponse({ error: 'Format must be "html", "markdown", "text", or "json"' }, 400);
+        }
+
+        let inputs;
+        try {
+          inputs = validateHandlerFixtures(body.fixtures);
+        } catch (error) {
+          return jsonResponse(
+            { error: error instanceof Error ? error.message : "Invalid fixtures" },
+            400
+          );
+        }
+
+        await db.init();
+        const handler = await db.getHandlerById(id, body.client || null);
+
+        if (!handler) {
+          return jsonResponse({ error: "Handler not found" }, 404);
+        }
+
+        const fixtures = await loadHandlerFixtures(inputs, handler, {
+          db,
+          client: body.client,
+        });
+        const report = await runHandlerTest(handler, fixtures, format);
+
+        logServerRequest({
+          timestamp: Date.now(),
+          command: "POST /handlers/:id/test",
+          id,
+          count: report.summary.total,
+        });
+
+        return jsonResponse(report);
+      } catch (error) {
+        console.error("Error:", error);
+        return jsonResponse(
+          { error: error instanceof Error ? error.message : "Internal server error" },
+          500
+        );
+      }
+    }
+
+    // GET/PUT/DELETE /handlers/:id - Single site handler
+    const handlersIdMatch = url.pathname.match(/^\/handlers\/([a-zA-Z0-9_-]+)$/);
+    if (handlersIdMatch && ["GET", "PUT", "DELETE"].includes(req.method)) {
+      try {
+        const id = handlersIdMatch[1];
+        const body = req.method === "PUT" ? await req.json() as HandlerRequest : {};
+        // Without a client, only shared handlers can be read or changed
+        const client = body.client || url.searchParams.get("client") || null;
+
+        let changes;
+        if (req.method === "PUT") {
+          try {
+            changes = validateSiteHandler(body, true);
+          } catch (error) {
+            return jsonResponse(
+              { error: error instanceof Error ? error.message : "Invalid handler" },
+              400
+            );
+          }
+          if (changes.id !== undefined && changes.id !== id) {
+            return jsonResponse({ error: "Handler ID cannot be changed" }, 400);
+          }
+        }
+
+        await db.init();
+
+        let response: unknown;
+        if (req.method === "GET") {
+          response = await db.getHandlerById(id, client);
+        } else if (req.method === "PUT") {
+          response = await db.updateHandler(id, changes!, client);
+        } else {
+          response = (await db.deleteHandler(id, client)) ? { deleted: true, id } : null;
+        }
+
+        if (!response) {
+          return jsonResponse({ error: "Handler not found" }, 404);
+        }
+
+        logServerRequest({
+          timestamp: Date.now(),
+          command: `${req.method} /handlers/:id`,
+          id,
+        });
+
+        return jsonResponse(response);
+      } catch (error) {
+        console.error("Error:", error);
+        return jsonResponse(
+          { error: error instanceof Error ? error.message : "Internal server error" },
+          500
+        );
+      }
+    }
+
+    // Fetch endpoint; POST /get with a url serves a matching stored page first (cached fetch)
+    if ((url.pathname === "/fetch" || url.pathname === "/get") && req.method === "POST") {
+      const cacheMode = url.pathname === "/get";
+      const command = cacheMode ? "POST /get" : "POST /fetch";
       try {
         const body = await req.json() as FetchRequest;
 
@@ -369,10 +948,24 @@ const server = Bun.serve({
           return jsonResponse({ error: "URL must start with http:// or https://" }, 400);
         }
 
-        const opts = body.options || {};
+        // Merge the named or hostname-matched fetch profile (request values win)
+        let profile: FetchProfile | null;
+        try {
+          profile = resolveProfile(await loadConfig(), body.options?.profile, body.url);
+        } catch (error) {
+          return jsonResponse(
+            { error: error instanceof Error ? error.message : "Invalid profile" },
+            400
+          );
+        }
+
+        const opts: FetchRequestOptions = profile
+          ? applyProfile(profile, { ...body.options })
+          : body.options || {};
         const format = opts.format || "markdown";
         const dataParam = opts.data;
         const storeParam = opts.store;
+        const client = (typeof storeParam === "object" ? storeParam.client : undefined) ?? body.client;
         const debugEnabled = body.debug || opts.debug || false;
         const includeFields = parseIncludeFields(body.include);
 
@@ -386,8 +979,41 @@ const server = Bun.serve({
           );
         }
 
-        if (!["html", "markdown", "text"].includes(format)) {
-          return jsonResponse({ error: 'Format must be "html", "markdown", or "text"' }, 400);
+        if (!CONTENT_FORMATS.includes(format)) {
+          return jsonResponse({ error: 'Format must be "html", "markdown", "text", or "json"' }, 400);
+        }
+
+        if (opts.relativeUrls !== undefined && typeof opts.relativeUrls !== "boolean") {
+          return jsonResponse({ error: "'relativeUrls' must be a boolean" }, 400);
+        }
+        const relativeUrls = opts.relativeUrls === true;
+
+        if (opts.markdownFlavor !== undefined && !MARKDOWN_FLAVORS.includes(opts.markdownFlavor)) {
+          return jsonResponse({ error: "'markdownFlavor' must be \"basic\" or \"gfm\"" }, 400);
+        }
+        const markdownFlavor: MarkdownFlavor = opts.markdownFlavor ?? "basic";
+
+        let chunkOptions: ChunkOptions | null;
+        try {
+          chunkOptions = validateChunkOptions(opts.chunk);
+        } catch (error) {
+          return jsonResponse(
+            { error: error instanceof Error ? error.message : "Invalid chunk option" },
+            400
+          );
+        }
+        if (chunkOptions && !CHUNK_FORMATS.includes(format)) {
+          return jsonResponse({ error: "'chunk' requires format \"markdown\" or \"text\"" }, 400);
+        }
+
+        let limits: ContentLimits;
+        try {
+          limits = validateContentLimits(opts);
+        } catch (error) {
+          return jsonResponse(
+            { error: error instanceof Error ? error.message : "Invalid content limits" },
+            400
+          );
         }
 
         let dataRequest: DataRequest | null = null;
@@ -400,10 +1026,40 @@ const server = Bun.serve({
           );
         }
 
-        const fetcher = new WebFetcher();
-        const result = await fetcher.fetch(body.url);
+        const maxAge = parseTtl(opts.maxAge);
+        if (opts.maxAge !== undefined && maxAge === undefined) {
+          return jsonResponse({ error: "Invalid maxAge (use seconds or a duration like 6h)" }, 400);
+        }
 
-        const apiRequestOptions: ApiRequestOptions = { scope, format };
+        let fetchOptions: WebFetchOptions;
+        try {
+          checkProxyOverride(body.options ?? {});
+          fetchOptions = validateWebFetchOptions({ ...opts });
+        } catch (error) {
+          return jsonResponse(
+            { error: error instanceof Error ? error.message : "Invalid fetch options" },
+            400
+          );
+        }
+
+        const apiRequestOptions: ApiRequestOptions = {
+          scope,
+          format,
+          ...redactFetchOptions(fetchOptions),
+        };
+        if (profile) {
+          apiRequestOptions.profile = profile.name;
+        }
+        if (relativeUrls) {
+          apiRequestOptions.relativeUrls = true;
+        }
+        if (markdownFlavor !== "basic") {
+          apiRequestOptions.markdownFlavor = markdownFlavor;
+        }
+        if (chunkOptions) {
+          apiRequestOptions.chunk = chunkOptions;
+        }
+        Object.assign(apiRequestOptions, limits);
         if (dataRequest) {
           apiRequestOptions.data = dataRequest;
         }
@@ -413,6 +1069,47 @@ const server = Bun.serve({
           options: apiRequestOptions,
         };
 
+        const optionsHash = computeOptionsHash({
+          scope,
+          format,
+          include: includeFields,
+          data: dataRequest,
+          relativeUrls,
+          markdownFlavor,
+          chunk: chunkOptions,
+          ...limits,
+        });
+
+        // Cached fetch: newest unexpired page with the same URL, options and client
+        if (cacheMode) {
+          await db.init();
+          const page = await db.getPage({ url: body.url, optionsHash, client: client ?? null, maxAge });
+          if (page) {
+            const cachedOutput: ApiOutput = {
+              request: apiRequest,
+              result: storedPageToResult(page),
+            };
+
+            logServerRequest({
+              timestamp: Date.now(),
+              command,
+              url: page.url,
+              id: page.id,
+              status: page.status,
+            });
+
+            return jsonResponse(cachedOutput);
+          }
+        }
+
+        // robots.txt is cached in the database across requests
+        if (fetchOptions.respectRobots) {
+          await db.init();
+        }
+        const fetcher = new WebFetcher({ urlPolicy: URL_POLICY, robots: db });
+        const result = await fetcher.fetch(body.url, fetchOptions);
+        const document = await parseDocument(result);
+
         const apiOutput: ApiOutput = {
           request: apiRequest,
           result: {
@@ -420,11 +1117,14 @@ const server = Bun.serve({
             url: result.url,
             status: result.status,
             redirect: result.redirect,
+            redirects: result.redirects,
+            encoding: result.encoding,
+            ...(cacheMode && { cached: false }),
           },
         };
 
         // Track scope resolution for debug and storage
-        let scopeResolution: { scopeUsed: Scope; scopeResolved: boolean; handlerId?: string } | undefined;
+        let scopeResolution: ScopeResolution | undefined;
 
         if (includeFields.headers) {
           apiOutput.result.headers = result.headers;
@@ -433,33 +1133,55 @@ const server = Bun.serve({
           apiOutput.result.body = result.body;
         }
         if (includeFields.meta) {
-          apiOutput.result.meta = parseHtmlMeta(result.body);
+          apiOutput.result.meta = parseHtmlMeta(document.html);
         }
         if (includeFields.content) {
-          const extraction = await extractWithScope(result.body, scope, format, result.url);
+          const extractOptions: ExtractOptions = { client, relativeUrls, markdownFlavor, ...limits };
+          if (scope === "auto" || isHandlerScope(scope)) {
+            await db.init();
+            extractOptions.handlers = db;
+          }
+          const extraction = await extractDocument(document, scope, format, result.url, extractOptions);
           apiOutput.result.content = extraction.content;
+          Object.assign(apiOutput.result, extraction.truncation);
           scopeResolution = extraction.scopeResolution;
+          if (chunkOptions) {
+            apiOutput.result.chunks = chunkContent(extraction.content, format, chunkOptions, result.url);
+          }
         }
         if (dataRequest) {
-          apiOutput.result.data = await runPlugins(result.body, dataRequest);
+          apiOutput.result.data = await runPlugins(document.html, dataRequest);
         }
 
         // Add debug info only if debug flag is set
-        if (debugEnabled && scopeResolution) {
-          apiOutput.debug = {
-            scope: {
+        if (debugEnabled) {
+          apiOutput.debug = {};
+          if (scopeResolution) {
+            apiOutput.debug.scope = {
               requested: scope,
               used: scopeResolution.scopeUsed,
               resolved: scopeResolution.scopeResolved,
               ...(scopeResolution.handlerId && {
                 handlerId: scopeResolution.handlerId,
               }),
-            },
+              ...(scopeResolution.main !== undefined && { main: scopeResolution.main }),
+            };
+          }
+          apiOutput.debug.fetch = {
+            attempts: result.attempts,
+            queueWait: result.queueWait,
+            encodingSource: result.encodingSource,
+            proxy: result.proxy,
+            robots: result.robots,
+          };
+          apiOutput.debug.document = {
+            type: document.type,
+            ...(document.pages && { pages: document.pages.length }),
           };
         }
 
-        // Database storage
-        if (storeParam) {
+        // Database storage (always for cached fetches)
+        if (storeParam || cacheMode) {
           try {
             await db.init();
 
@@ -475,15 +1197,17 @@ const server = Bun.serve({
             // Add store options to request for visibility
             apiRequest.options.store = {
               ttl: storeOptions.ttl,
-              client: storeOptions.client,
+              client,
+              ...(storeOptions.body && { body: true }),
             };
 
             const pageData: PageData = {
               url: result.url,
+              requestUrl: body.url,
               domain: domain,
               hostname: urlObj.hostname,
               path: urlObj.pathname,
-              client: storeOptions.client || null,
+              client: client || null,
               title: apiOutput.result.meta?.title || null,
               status: result.status,
               content: apiOutput.result.content || null,
@@ -494,9 +1218,21 @@ const server = Bun.serve({
                 scopeUsed: scopeResolution?.scopeUsed,
                 scopeResolved: scopeResolution?.scopeResolved,
                 format,
+                ...(relativeUrls && { relativeUrls }),
+                ...(markdownFlavor !== "basic" && { markdownFlavor }),
+                ...(chunkOptions && { chunk: chunkOptions }),
+                ...limits,
+                ...redactFetchOptions(fetchOptions),
+                ...(profile && { profile: profile.name }),
+                ...(dataRequest && { data: dataRequest }),
               },
               timestamp,
               deleteAt,
+              etag: result.headers.etag ?? null,
+              lastModified: result.headers["last-modified"] ?? null,
+              optionsHash,
+              chunks: apiOutput.result.chunks ?? null,
+              body: storeOptions.body ? document.html : null,
             };
 
             const storedPage = await db.storePage(pageData);
@@ -511,7 +1247,7 @@ const server = Bun.serve({
 
         logServerRequest({
           timestamp: apiOutput.result.timestamp,
-          command: "POST /fetch",
+          command,
           url: result.url,
           id: apiOutput.result.id,
           status: result.status,
@@ -519,8 +1255,222 @@ const server = Bun.serve({
 
         return jsonResponse(apiOutput);
       } catch (error) {
-        // Return 400 for user errors (invalid function scope)
-        if (error instanceof FunctionScopeError) {
+        // Return 400 for user errors (invalid function scope, unknown handler)
+        if (error instanceof FunctionScopeError || error instanceof HandlerScopeError) {
+          return jsonResponse({ error: error.message }, 400);
+        }
+        if (error instanceof UrlPolicyError) {
+          return urlPolicyErrorResponse(error);
+        }
+        if (error instanceof RobotsError) {
+          return robotsErrorResponse(error);
+        }
+        if (error instanceof FetchError) {
+          return fetchErrorResponse(error);
+        }
+        if (error instanceof DocumentError) {
+          return documentErrorResponse(error);
+        }
+        console.error("Error:", error);
+        return jsonResponse(
+          { error: error instanceof Error ? error.message : "Internal server error" },
+          500
+        );
+      }
+    }
+
+    // POST /extract: the fetch pipeline (meta, scope, plugins, store) on HTML from the request
+    if (url.pathname === "/extract" && req.method === "POST") {
+      try {
+        const body = await req.json() as ExtractRequest;
+
+        if (typeof body.html !== "string" || !body.html.trim()) {
+          return jsonResponse({ error: "html is required" }, 400);
+        }
+
+        if (body.baseUrl && !body.baseUrl.startsWith("http://") && !body.baseUrl.startsWith("https://")) {
+          return jsonResponse({ error: "baseUrl must start with http:// or https://" }, 400);
+        }
+
+        const opts = body.options || {};
+        const format = opts.format || "markdown";
+        const storeParam = opts.store;
+        const client = (typeof storeParam === "object" ? storeParam.client : undefined) ?? body.client;
+        const debugEnabled = body.debug || opts.debug || false;
+        const includeFields = parseIncludeFields(body.include);
+
+        if (storeParam && !body.baseUrl) {
+          return jsonResponse({ error: "baseUrl is required to store extracted HTML" }, 400);
+        }
+
+        let scope: Scope;
+        try {
+          scope = opts.scope ? validateScope(opts.scope) : "main";
+        } catch (error) {
+          return jsonResponse(
+            { error: error instanceof Error ? error.message : "Invalid scope" },
+            400
+          );
+        }
+
+        if (!CONTENT_FORMATS.includes(format)) {
+          return jsonResponse({ error: 'Format must be "html", "markdown", "text", or "json"' }, 400);
+        }
+
+        if (opts.relativeUrls !== undefined && typeof opts.relativeUrls !== "boolean") {
+          return jsonResponse({ error: "'relativeUrls' must be a boolean" }, 400);
+        }
+        const relativeUrls = opts.relativeUrls === true;
+
+        if (opts.markdownFlavor !== undefined && !MARKDOWN_FLAVORS.includes(opts.markdownFlavor)) {
+          return jsonResponse({ error: "'markdownFlavor' must be \"basic\" or \"gfm\"" }, 400);
+        }
+        const markdownFlavor: MarkdownFlavor = opts.markdownFlavor ?? "basic";
+
+        let limits: ContentLimits;
+        try {
+          limits = validateContentLimits(opts);
+        } catch (error) {
+          return jsonResponse(
+            { error: error instanceof Error ? error.message : "Invalid content limits" },
+            400
+          );
+        }
+
+        let dataRequest: DataRequest | null = null;
+        try {
+          dataRequest = parseDataParam(opts.data);
+        } catch (error) {
+          return jsonResponse(
+            { error: error instanceof Error ? error.message : "Invalid data parameter" },
+            400
+          );
+        }
+
+        const extractOutput: ExtractOutput = {
+          request: {
+            baseUrl: body.baseUrl ?? null,
+            options: {
+              scope,
+              format,
+              ...(relativeUrls && { relativeUrls }),
+              ...(markdownFlavor !== "basic" && { markdownFlavor }),
+              ...limits,
+              ...(dataRequest && { data: dataRequest }),
+            },
+          },
+          result: {
+            timestamp: Date.now(),
+            url: body.baseUrl ?? null,
+          },
+        };
+
+        let scopeResolution: ScopeResolution | undefined;
+
+        if (includeFields.body) {
+          extractOutput.result.body = body.html;
+        }
+        if (includeFields.meta) {
+          extractOutput.result.meta = parseHtmlMeta(body.html);
+        }
+        if (includeFields.content) {
+          const extractOptions: ExtractOptions = { client, relativeUrls, markdownFlavor, ...limits };
+          if (scope === "auto" || isHandlerScope(scope)) {
+            await db.init();
+            extractOptions.handlers = db;
+          }
+          const extraction = await extractWithScope(body.html, scope, format, body.baseUrl, extractOptions);
+          extractOutput.result.content = extraction.content;
+          Object.assign(extractOutput.result, extraction.truncation);
+          scopeResolution = extraction.scopeResolution;
+        }
+        if (dataRequest) {
+          extractOutput.result.data = await runPlugins(body.html, dataRequest);
+        }
+
+        if (debugEnabled) {
+          extractOutput.debug = {};
+          if (scopeResolution) {
+            extractOutput.debug.scope = {
+              requested: scope,
+              used: scopeResolution.scopeUsed,
+              resolved: scopeResolution.scopeResolved,
+              ...(scopeResolution.handlerId && {
+                handlerId: scopeResolution.handlerId,
+              }),
+              ...(scopeResolution.main !== undefined && { main: scopeResolution.main }),
+            };
+          }
+        }
+
+        // Database storage, under the base URL. Not a fetch of that URL, so
+        // without an options hash: cached fetches (/get) never serve it.
+        if (storeParam && body.baseUrl) {
+          try {
+            await db.init();
+
+            const urlObj = new URL(body.baseUrl);
+            const domainParts = urlObj.hostname.split(".");
+            const domain = domainParts.slice(-2).join(".");
+
+            const timestamp = Date.now();
+            const storeOptions = typeof storeParam === "object" ? storeParam : {};
+            const ttl = parseTtl(storeOptions.ttl) || DEFAULT_TTL;
+            const deleteAt = timestamp + ttl * 1000;
+
+            extractOutput.request.options.store = {
+              ttl: storeOptions.ttl,
+              client,
+              ...(storeOptions.body && { body: true }),
+            };
+
+            const pageData: PageData = {
+              url: body.baseUrl,
+              domain,
+              hostname: urlObj.hostname,
+              path: urlObj.pathname,
+              client: client || null,
+              title: extractOutput.result.meta?.title || null,
+              status: 200,
+              content: extractOutput.result.content || null,
+              meta: extractOutput.result.meta || {},
+              data: extractOutput.result.data || {},
+              options: {
+                scope,
+                scopeUsed: scopeResolution?.scopeUsed,
+                scopeResolved: scopeResolution?.scopeResolved,
+                format,
+                ...(relativeUrls && { relativeUrls }),
+                ...(markdownFlavor !== "basic" && { markdownFlavor }),
+                ...limits,
+                ...(dataRequest && { data: dataRequest }),
+              },
+              timestamp,
+              deleteAt,
+              body: storeOptions.body ? body.html : null,
+            };
+
+            const storedPage = await db.storePage(pageData);
+            extractOutput.result.id = storedPage.id;
+          } catch (dbError) {
+            console.error(
+              "Database Error:",
+              dbError instanceof Error ? dbError.message : dbError
+            );
+          }
+        }
+
+        logServerRequest({
+          timestamp: extractOutput.result.timestamp,
+          command: "POST /extract",
+          url: body.baseUrl,
+          id: extractOutput.result.id,
+          status: 200,
+        });
+
+        return jsonResponse(extractOutput);
+      } catch (error) {
+        if (error instanceof FunctionScopeError || error instanceof HandlerScopeError) {
           return jsonResponse({ error: error.message }, 400);
         }
         console.error("Error:", error);
@@ -573,6 +1523,7 @@ const server = Bun.serve({
           options: body.options || {},
           timestamp,
           deleteAt,
+          body: body.body || null,
         };
 
         const storedPage = await db.storePage(pageData);
@@ -603,8 +1554,10 @@ const server = Bun.serve({
       }
     }
 
-    // GET /fetch with query params
-    if (url.pathname === "/fetch" && req.method === "GET") {
+    // GET /fetch with query params; GET /get serves a matching stored page first (cached fetch)
+    if ((url.pathname === "/fetch" || url.pathname === "/get") && req.method === "GET") {
+      const cacheMode = url.pathname === "/get";
+      const command = cacheMode ? "GET /get" : "GET /fetch";
       const targetUrl = url.searchParams.get("url");
 
       if (!targetUrl) {
@@ -615,19 +1568,35 @@ const server = Bun.serve({
         return jsonResponse({ error: "URL must start with http:// or https://" }, 400);
       }
 
-      const scopeParam = url.searchParams.get("scope") || "main";
-      const format = (url.searchParams.get("format") || "markdown") as ContentFormat;
+      let profile: FetchProfile | null;
+      try {
+        profile = resolveProfile(
+          await loadConfig(),
+          url.searchParams.get("profile") || undefined,
+          targetUrl
+        );
+      } catch (error) {
+        return jsonResponse(
+          { error: error instanceof Error ? error.message : "Invalid profile" },
+          400
+        );
+      }
+
+      const scopeParam = url.searchParams.get("scope");
+      const format = (url.searchParams.get("format") || profile?.format || "markdown") as ContentFormat;
       const includeParam = url.searchParams.get("include") || undefined;
       const includeFields = parseIncludeFields(includeParam);
       const dataParam = url.searchParams.get("data") || undefined;
       const debugEnabled = url.searchParams.get("debug") === "true";
+      // One client for the cache lookup, handlers and the stored page; store's wins
+      const client = storeQueryClient(url.searchParams.get("store")) || url.searchParams.get("client") || undefined;
 
-      let scope: Scope;
+      let scope: Scope = profile?.scope ?? "main";
       try {
         // For GET requests, scope param can be simple string or JSON
-        if (scopeParam.startsWith("{")) {
+        if (scopeParam?.startsWith("{")) {
           scope = validateScope(JSON.parse(scopeParam));
-        } else {
+        } else if (scopeParam) {
           scope = validateScope(scopeParam);
         }
       } catch (error) {
@@ -637,8 +1606,43 @@ const server = Bun.serve({
         );
       }
 
-      if (!["html", "markdown", "text"].includes(format)) {
-        return jsonResponse({ error: 'Format must be "html", "markdown", or "text"' }, 400);
+      if (!CONTENT_FORMATS.includes(format)) {
+        return jsonResponse({ error: 'Format must be "html", "markdown", "text", or "json"' }, 400);
+      }
+
+      const relativeUrls = url.searchParams.get("relativeUrls") === "true";
+
+      const markdownFlavor = (url.searchParams.get("markdownFlavor") || "basic") as MarkdownFlavor;
+      if (!MARKDOWN_FLAVORS.includes(markdownFlavor)) {
+        return jsonResponse({ error: "'markdownFlavor' must be \"basic\" or \"gfm\"" }, 400);
+      }
+
+      let chunkOptions: ChunkOptions | null;
+      try {
+        chunkOptions = validateChunkOptions(parseChunkQueryParams(url.searchParams));
+      } catch (error) {
+        return jsonResponse(
+          { error: error instanceof Error ? error.message : "Invalid chunk option" },
+          400
+        );
+      }
+      if (chunkOptions && !CHUNK_FORMATS.includes(format)) {
+        return jsonResponse({ error: "'chunk' requires format \"markdown\" or \"text\"" }, 400);
+      }
+
+      let limits: ContentLimits;
+      try {
+        const maxLength = url.searchParams.get("maxLength");
+        const maxTokens = url.searchParams.get("maxTokens");
+        limits = validateContentLimits({
+          maxLength: maxLength !== null ? Number(maxLength) : undefined,
+          maxTokens: maxTokens !== null ? Number(maxTokens) : undefined,
+        });
+      } catch (error) {
+        return jsonResponse(
+          { error: error instanceof Error ? error.message : "Invalid content limits" },
+          400
+        );
       }
 
       let dataRequest: DataRequest | null = null;
@@ -651,11 +1655,45 @@ const server = Bun.serve({
         );
       }
 
+      const maxAgeParam = url.searchParams.get("maxAge");
+      const maxAge = parseTtl(maxAgeParam ?? undefined);
+      if (maxAgeParam !== null && maxAge === undefined) {
+        return jsonResponse({ error: "Invalid maxAge (use seconds or a duration like 6h)" }, 400);
+      }
+
+      let fetchOptions: WebFetchOptions;
       try {
-        const fetcher = new WebFetcher();
-        const result = await fetcher.fetch(targetUrl);
+        const queryOptions = parseFetchQueryParams(url.searchParams);
+        checkProxyOverride(queryOptions);
+        fetchOptions = validateWebFetchOptions(
+          profile ? applyProfile(profile, queryOptions) : queryOptions
+        );
+      } catch (error) {
+        return jsonResponse(
+          { error: error instanceof Error ? error.message : "Invalid fetch options" },
+          400
+        );
+      }
 
-        const apiRequestOptions: ApiRequestOptions = { scope, format };
+      try {
+        const apiRequestOptions: ApiRequestOptions = {
+          scope,
+          format,
+          ...redactFetchOptions(fetchOptions),
+        };
+        if (profile) {
+          apiRequestOptions.profile = profile.name;
+        }
+        if (relativeUrls) {
+          apiRequestOptions.relativeUrls = true;
+        }
+        if (markdownFlavor !== "basic") {
+          apiRequestOptions.markdownFlavor = markdownFlavor;
+        }
+        if (chunkOptions) {
+          apiRequestOptions.chunk = chunkOptions;
+        }
+        Object.assign(apiRequestOptions, limits);
         if (dataRequest) {
           apiRequestOptions.data = dataRequest;
         }
@@ -665,6 +1703,47 @@ const server = Bun.serve({
           options: apiRequestOptions,
         };
 
+        const optionsHash = computeOptionsHash({
+          scope,
+          format,
+          include: includeFields,
+          data: dataRequest,
+          relativeUrls,
+          markdownFlavor,
+          chunk: chunkOptions,
+          ...limits,
+        });
+
+        // Cached fetch: newest unexpired page with the same URL, options and client
+        if (cacheMode) {
+          await db.init();
+          const page = await db.getPage({ url: targetUrl, optionsHash, client: client ?? null, maxAge });
+          if (page) {
+            const cachedOutput: ApiOutput = {
+              request: apiRequest,
+              result: storedPageToResult(page),
+            };
+
+            logServerRequest({
+              timestamp: Date.now(),
+              command,
+              url: page.url,
+              id: page.id,
+              status: page.status,
+            });
+
+            return jsonResponse(cachedOutput);
+          }
+        }
+
+        // robots.txt is cached in the database across requests
+        if (fetchOptions.respectRobots) {
+          await db.init();
+        }
+        const fetcher = new WebFetcher({ urlPolicy: URL_POLICY, robots: db });
+        const result = await fetcher.fetch(targetUrl, fetchOptions);
+        const document = await parseDocument(result);
+
         const apiOutput: ApiOutput = {
           request: apiRequest,
           result: {
@@ -672,11 +1751,14 @@ const server = Bun.serve({
             url: result.url,
             status: result.status,
             redirect: result.redirect,
+            redirects: result.redirects,
+            encoding: result.encoding,
+            ...(cacheMode && { cached: false }),
           },
         };
 
         // Track scope resolution for debug and storage
-        let scopeResolution: { scopeUsed: Scope; scopeResolved: boolean; handlerId?: string } | undefined;
+        let scopeResolution: ScopeResolution | undefined;
 
         if (includeFields.headers) {
           apiOutput.result.headers = result.headers;
@@ -685,34 +1767,58 @@ const server = Bun.serve({
           apiOutput.result.body = result.body;
         }
         if (includeFields.meta) {
-          apiOutput.result.meta = parseHtmlMeta(result.body);
+          apiOutput.result.meta = parseHtmlMeta(document.html);
         }
         if (includeFields.content) {
-          const extraction = await extractWithScope(result.body, scope, format, result.url);
+          const extractOptions: ExtractOptions = { client, relativeUrls, markdownFlavor, ...limits };
+          if (scope === "auto" || isHandlerScope(scope)) {
+            await db.init();
+            extractOptions.handlers = db;
+          }
+          const extraction = await extractDocument(document, scope, format, result.url, extractOptions);
           apiOutput.result.content = extraction.content;
+          Object.assign(apiOutput.result, extraction.truncation);
           scopeResolution = extraction.scopeResolution;
+          if (chunkOptions) {
+            apiOutput.result.chunks = chunkContent(extraction.content, format, chunkOptions, result.url);
+          }
         }
         if (dataRequest) {
-          apiOutput.result.data = await runPlugins(result.body, dataRequest);
+          apiOutput.result.data = await runPlugins(document.html, dataRequest);
         }
 
         // Add debug info only if debug flag is set
-        if (debugEnabled && scopeResolution) {
-          apiOutput.debug = {
-            scope: {
+        if (debugEnabled) {
+          apiOutput.debug = {};
+          if (scopeResolution) {
+            apiOutput.debug.scope = {
               requested: scope,
               used: scopeResolution.scopeUsed,
               resolved: scopeResolution.scopeResolved,
               ...(scopeResolution.handlerId && {
                 handlerId: scopeResolution.handlerId,
               }),
-            },
+              ...(scopeResolution.main !== undefined && { main: scopeResolution.main }),
+            };
+          }
+          apiOutput.debug.fetch = {
+            attempts: result.attempts,
+            queueWait: result.queueWait,
+            encodingSource: result.encodingSource,
+            proxy: result.proxy,
+            robots: result.robots,
+          };
+          apiOutput.debug.document = {
+            type: document.type,
+            ...(document.pages && { pages: document.pages.length }),
           };
         }
 
-        // Database storage (GET /fetch usually defaults to no store unless specified)
-        const storeParam = url.searchParams.get("store");
-        if (storeParam) {
+        // Database storage (GET /fetch usually defaults to no store unless specified;
+        // GET /get always stores, with the TTL from `ttl`)
+        const storeParam = url.searchParams.get("store")
+          || (cacheMode ? url.searchParams.get("ttl") ?? "" : null);
+        if (storeParam !== null) {
           try {
             await db.init();
 
@@ -722,13 +1828,13 @@ const server = Bun.serve({
 
             const timestamp = Date.now();
             let ttl = DEFAULT_TTL;
-            let client: string | null = null;
+            let storeBody = false;
 
             if (storeParam.startsWith("{")) {
               try {
-                const parsed = JSON.parse(storeParam);
-                ttl = parseTtl(parsed.ttl) || ttl;
-                client = parsed.client || null;
+                const storeOptions = JSON.parse(storeParam);
+                ttl = parseTtl(storeOptions.ttl) || ttl;
+                storeBody = storeOptions.body === true;
               } catch {
                 // Ignore parse error
               }
@@ -737,18 +1843,19 @@ const server = Bun.serve({
             }
 
             // Add store options to request for visibility
-            client = client || url.searchParams.get("client") || null;
             apiRequest.options.store = {
-              ttl: storeParam.startsWith("{") ? undefined : storeParam,
+              ttl: storeParam.startsWith("{") || !storeParam ? undefined : storeParam,
               client: client || undefined,
+              ...(storeBody && { body: true }),
             };
 
             const pageData: PageData = {
               url: result.url,
+              requestUrl: targetUrl,
               domain: domain,
               hostname: urlObj.hostname,
               path: urlObj.pathname,
-              client: client,
+              client: client ?? null,
               title: apiOutput.result.meta?.title || null,
               status: result.status,
               content: apiOutput.result.content || null,
@@ -759,9 +1866,21 @@ const server = Bun.serve({
                 scopeUsed: scopeResolution?.scopeUsed,
                 scopeResolved: scopeResolution?.scopeResolved,
                 format,
+                ...(relativeUrls && { relativeUrls }),
+                ...(markdownFlavor !== "basic" && { markdownFlavor }),
+                ...(chunkOptions && { chunk: chunkOptions }),
+                ...limits,
+                ...redactFetchOptions(fetchOptions),
+                ...(profile && { profile: profile.name }),
+                ...(dataRequest && { data: dataRequest }),
               },
               timestamp,
               deleteAt: timestamp + ttl * 1000,
+              etag: result.headers.etag ?? null,
+              lastModified: result.headers["last-modified"] ?? null,
+              optionsHash,
+              chunks: apiOutput.result.chunks ?? null,
+              body: storeBody ? document.html : null,
             };
 
             const storedPage = await db.storePage(pageData);
@@ -776,7 +1895,7 @@ const server = Bun.serve({
 
         logServerRequest({
           timestamp: apiOutput.result.timestamp,
-          command: "GET /fetch",
+          command,
           url: result.url,
           id: apiOutput.result.id,
           status: result.status,
@@ -784,10 +1903,22 @@ const server = Bun.serve({
 
         return jsonResponse(apiOutput);
       } catch (error) {
-        // Return 400 for user errors (invalid function scope)
-        if (error instanceof FunctionScopeError) {
+        // Return 400 for user errors (invalid function scope, unknown handler)
+        if (error instanceof FunctionScopeError || error instanceof HandlerScopeError) {
           return jsonResponse({ error: error.message }, 400);
         }
+        if (error instanceof UrlPolicyError) {
+          return urlPolicyErrorResponse(error);
+        }
+        if (error instanceof RobotsError) {
+          return robotsErrorResponse(error);
+        }
+        if (error instanceof FetchError) {
+          return fetchErrorResponse(error);
+        }
+        if (error instanceof DocumentError) {
+          return documentErrorResponse(error);
+        }
         console.error("Error:", error);
         return jsonResponse(
           { error: error instanceof Error ? error.message : "Internal server error" },
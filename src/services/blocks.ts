@@ -0,0 +1,394 @@
+/**
+ * Block Tree
+ * The "json" content format: extracted HTML as an ordered tree of blocks
+ * (paragraphs, lists, tables, code, quotes, images, links). Headings open
+ * sections that hold the blocks up to the next heading of the same or a
+ * higher level, so heading levels and nesting are kept.
+ */
+
+import { parse, HTMLElement, TextNode, type Node } from "node-html-parser";
+import { tableGrid, mergeHeaderRows, codeLanguage } from "./gfm";
+
+export interface ContentTree {
+  blocks: ContentBlock[];
+}
+
+export type ContentBlock =
+  | SectionBlock
+  | ParagraphBlock
+  | ListBlock
+  | TableBlock
+  | CodeBlock
+  | QuoteBlock
+  | ImageBlock
+  | LinkBlock;
+
+export interface SectionBlock {
+  type: "section";
+  /** Heading level, 1-6 */
+  level: number;
+  heading: string;
+  children: ContentBlock[];
+}
+
+export interface ParagraphBlock {
+  type: "paragraph";
+  /** Text with line breaks from <br> */
+  text: string;
+  links?: ContentLink[];
+}
+
+export interface ListBlock {
+  type: "list";
+  ordered: boolean;
+  items: ListItem[];
+}
+
+export interface ListItem {
+  text: string;
+  links?: ContentLink[];
+  /** Task list items (checkbox) */
+  checked?: boolean;
+  /** Nested lists and other blocks inside the item */
+  children?: ContentBlock[];
+}
+
+export interface TableBlock {
+  type: "table";
+  caption?: string;
+  /** Header row (thead or leading th rows, merged); absent if none */
+  header?: string[];
+  rows: string[][];
+}
+
+export interface CodeBlock {
+  type: "code";
+  language?: string;
+  text: string;
+}
+
+export interface QuoteBlock {
+  type: "quote";
+  children: ContentBlock[];
+}
+
+export interface ImageBlock {
+  type: "image";
+  src: string;
+  alt?: string;
+  title?: string;
+  /** figcaption of the enclosing figure */
+  caption?: string;
+}
+
+/** A paragraph that is only a link */
+export interface LinkBlock {
+  type: "link";
+  href: string;
+  text: string;
+}
+
+export interface ContentLink {
+  href: string;
+  text: string;
+}
+
+/** Headings before sections are built */
+interface HeadingBlock {
+  type: "heading";
+  level: number;
+  text: string;
+}
+
+type FlatBlock = ContentBlock | HeadingBlock;
+
+/** Elements that are part of a paragraph's text */
+const INLINE_TAGS = new Set([
+  "A", "ABBR", "B", "BDI", "BDO", "BR", "CITE", "CODE", "DATA", "DEL", "DFN", "EM",
+  "FONT", "I", "IMG", "INPUT", "INS", "KBD", "LABEL", "MARK", "Q", "S", "SAMP",
+  "SMALL", "SPAN", "STRIKE", "STRONG", "SUB", "SUP", "TIME", "U", "VAR", "WBR",
+]);
+
+/**
+ * Convert extracted HTML to the json format: a serialized ContentTree.
+ */
+export function convertToJson(html: string): string {
+  // Parse <pre> as markup (node-html-parser keeps it as raw text by default)
+  const root = parse(html, { blockTextElements: { script: true, style: true } });
+  const tree: ContentTree = { blocks: buildBlocks(root) };
+  return JSON.stringify(tree);
+}
+
+/**
+ * The json format for plain text: a paragraph per blank-line-separated block.
+ */
+export function textToJson(text: string): string {
+  const blocks: ContentBlock[] = text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .map((paragraph) => ({ type: "paragraph", text: paragraph }));
+  const tree: ContentTree = { blocks };
+  return JSON.stringify(tree);
+}
+
+/**
+ * Block tree of an element's content.
+ */
+export function buildBlocks(root: HTMLElement): ContentBlock[] {
+  return nestSections(flatBlocks(root));
+}
+
+/** Blocks of an element's children in document order, headings not yet nested */
+function flatBlocks(parent: HTMLElement): FlatBlock[] {
+  const blocks: FlatBlock[] = [];
+  let inline: Node[] = [];
+
+  for (const child of parent.childNodes) {
+    if (child instanceof TextNode || (child instanceof HTMLElement && isInline(child))) {
+      inline.push(child);
+      continue;
+    }
+    if (!(child instanceof HTMLElement)) continue;
+
+    blocks.push(...inlineBlocks(inline), ...elementBlocks(child));
+    inline = [];
+  }
+
+  blocks.push(...inlineBlocks(inline));
+  return blocks;
+}
+
+function elementBlocks(element: HTMLElement): FlatBlock[] {
+  switch (element.tagName) {
+    case "H1":
+    case "H2":
+    case "H3":
+    case "H4":
+    case "H5":
+    case "H6": {
+      const text = inlineText(element.childNodes);
+      return text ? [{ type: "heading", level: Number(element.tagName[1]), text }] : [];
+    }
+    case "P":
+      return inlineBlocks(element.childNodes);
+    case "UL":
+    case "OL":
+      return listBlocks(element);
+    case "TABLE":
+      return tableBlocks(element);
+    case "PRE":
+      return [codeBlock(element)];
+    case "BLOCKQUOTE": {
+      const children = buildBlocks(element);
+      return children.length > 0 ? [{ type: "quote", children }] : [];
+    }
+    case "FIGURE":
+      return figureBlocks(element);
+    case "HR":
+      return [];
+    default:
+      return flatBlocks(element);
+  }
+}
+
+/**
+ * A run of inline content: a paragraph (or a link block if it is only a
+ * link), followed by the images it contains.
+ */
+function inlineBlocks(nodes: Node[]): FlatBlock[] {
+  const text = inlineText(nodes);
+  const links = nodes.flatMap(nodeLinks);
+  const images = nodes
+    .flatMap((node) =>
+      node instanceof HTMLElement
+        ? node.tagName === "IMG" ? [node] : node.querySelectorAll("img")
+        : []
+    )
+    .flatMap(imageBlock);
+
+  if (!text) return images;
+  if (links.length === 1 && links[0].text === text) {
+    return [{ type: "link", ...links[0] }, ...images];
+  }
+  return [{ type: "paragraph", text, ...(links.length > 0 && { links }) }, ...images];
+}
+
+function listBlocks(list: HTMLElement): FlatBlock[] {
+  const items = elementChildren(list)
+    .filter((child) => child.tagName === "LI")
+    .map(listItem);
+  return items.length > 0 ? [{ type: "list", ordered: list.tagName === "OL", items }] : [];
+}
+
+/** The item's first paragraph is its text; nested lists and other blocks are children */
+function listItem(li: HTMLElement): ListItem {
+  const blocks = buildBlocks(li);
+  const first = blocks[0];
+
+  let text = "";
+  let links: ContentLink[] = [];
+  if (first?.type === "paragraph") {
+    text = first.text;
+    links = first.links ?? [];
+    blocks.shift();
+  } else if (first?.type === "link") {
+    text = first.text;
+    links = [{ href: first.href, text: first.text }];
+    blocks.shift();
+  }
+
+  const checkbox = [li, ...elementChildren(li).filter((child) => child.tagName === "P")]
+    .flatMap(elementChildren)
+    .find((child) => child.tagName === "INPUT" && child.getAttribute("type")?.toLowerCase() === "checkbox");
+
+  return {
+    text,
+    ...(links.length > 0 && { links }),
+    ...(checkbox && { checked: checkbox.hasAttribute("checked") }),
+    ...(blocks.length > 0 && { children: blocks }),
+  };
+}
+
+/**
+ * A data table, or the blocks of its cells for layout tables (single
+ * column, or containing tables).
+ */
+function tableBlocks(table: HTMLElement): FlatBlock[] {
+  const rows = elementChildren(table).flatMap((child) => {
+    if (child.tagName === "TR") return [child];
+    if (["THEAD", "TBODY", "TFOOT"].includes(child.tagName)) {
+      return elementChildren(child).filter((row) => row.tagName === "TR");
+    }
+    return [];
+  });
+  if (rows.length === 0) return [];
+
+  const cellsOf = (row: HTMLElement) =>
+    elementChildren(row).filter((cell) => cell.tagName === "TD" || cell.tagName === "TH");
+
+  const captionElement = elementChildren(table).find((child) => child.tagName === "CAPTION");
+  const caption = captionElement ? inlineText(captionElement.childNodes) : "";
+
+  const grid = tableGrid(
+    rows.map((row) =>
+      cellsOf(row).map((cell) => ({
+        text: inlineText(cell.childNodes).replace(/\n/g, " "),
+        colspan: cell.getAttribute("colspan") ?? null,
+        rowspan: cell.getAttribute("rowspan") ?? null,
+      }))
+    )
+  );
+
+  if (grid[0].length <= 1 || table.querySelector("table")) {
+    return rows.flatMap((row) => cellsOf(row).flatMap(flatBlocks));
+  }
+
+  let headerCount = 0;
+  while (
+    headerCount < rows.length &&
+    (rows[headerCount].parentNode?.tagName === "THEAD" ||
+      cellsOf(rows[headerCount]).every((cell) => cell.tagName === "TH"))
+  ) {
+    headerCount++;
+  }
+
+  return [{
+    type: "table",
+    ...(caption && { caption }),
+    ...(headerCount > 0 && { header: mergeHeaderRows(grid.slice(0, headerCount)) }),
+    rows: grid.slice(headerCount),
+  }];
+}
+
+function codeBlock(pre: HTMLElement): CodeBlock {
+  const children = elementChildren(pre);
+  const code = children.length === 1 && children[0].tagName === "CODE" ? children[0] : pre;
+  const language = codeLanguage(
+    [code, pre, pre.parentNode].map((element) => element?.getAttribute("class") ?? "")
+  );
+  return {
+    type: "code",
+    ...(language && { language }),
+    text: code.textContent.replace(/\n$/, ""),
+  };
+}
+
+/** Images of a figure get its caption; figures without images are containers */
+function figureBlocks(figure: HTMLElement): FlatBlock[] {
+  const images = figure.querySelectorAll("img").flatMap(imageBlock);
+  if (images.length === 0) return flatBlocks(figure);
+
+  const figcaption = figure.querySelector("figcaption");
+  const caption = figcaption ? inlineText(figcaption.childNodes) : "";
+  return images.map((image) => ({ ...image, ...(caption && { caption }) }));
+}
+
+function imageBlock(img: HTMLElement): ImageBlock[] {
+  const src = img.getAttribute("src");
+  if (!src) return [];
+  const alt = img.getAttribute("alt")?.trim();
+  const title = img.getAttribute("title")?.trim();
+  return [{ type: "image", src, ...(alt && { alt }), ...(title && { title }) }];
+}
+
+/** Links in inline content, with their text */
+function nodeLinks(node: Node): ContentLink[] {
+  if (!(node instanceof HTMLElement)) return [];
+  const anchors = node.tagName === "A" ? [node] : node.querySelectorAll("a");
+  return anchors.flatMap((anchor) => {
+    const href = anchor.getAttribute("href");
+    return href ? [{ href, text: inlineText(anchor.childNodes) }] : [];
+  });
+}
+
+/** Text of inline content: whitespace collapsed, <br> kept as line breaks */
+function inlineText(nodes: Node[]): string {
+  const collect = (node: Node): string => {
+    if (node instanceof TextNode) return node.text.replace(/\s+/g, " ");
+    if (!(node instanceof HTMLElement)) return "";
+    if (node.tagName === "BR") return "\n";
+    return node.childNodes.map(collect).join("");
+  };
+  return nodes
+    .map(collect)
+    .join("")
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Nest blocks under headings: a heading's section holds the blocks up to the
+ * next heading of the same or a higher level.
+ */
+function nestSections(blocks: FlatBlock[]): ContentBlock[] {
+  const root: ContentBlock[] = [];
+  const open: SectionBlock[] = [];
+
+  for (const block of blocks) {
+    if (block.type !== "heading") {
+      (open.at(-1)?.children ?? root).push(block);
+      continue;
+    }
+
+    while (open.length > 0 && open[open.length - 1].level >= block.level) {
+      open.pop();
+    }
+    const section: SectionBlock = { type: "section", level: block.level, heading: block.text, children: [] };
+    (open.at(-1)?.children ?? root).push(section);
+    open.push(section);
+  }
+
+  return root;
+}
+
+/** Inline elements that wrap blocks (e.g. a link around a card) are containers */
+function isInline(element: HTMLElement): boolean {
+  return INLINE_TAGS.has(element.tagName) && !element.querySelector("p, div, ul, ol, table, pre, blockquote, h1, h2, h3, h4, h5, h6, figure");
+}
+
+function elementChildren(element: HTMLElement): HTMLElement[] {
+  return element.childNodes.filter((node): node is HTMLElement => node instanceof HTMLElement);
+}
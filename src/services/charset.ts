@@ -0,0 +1,125 @@
+/**
+ * Charset Detection
+ * Determines the character encoding of a response body from its BOM,
+ * Content-Type header and <meta> tags, and decodes the raw bytes.
+ */
+
+/** Where the detected encoding came from */
+export type CharsetSource = "bom" | "header" | "meta" | "default";
+
+export interface DecodedBody {
+  text: string;
+  /** WHATWG encoding name, e.g. "utf-8", "shift_jis", "windows-1252" */
+  encoding: string;
+  encodingSource: CharsetSource;
+}
+
+/** Number of leading bytes scanned for <meta> charset declarations */
+const META_SCAN_BYTES = 4096;
+
+const BOMS: Array<{ bytes: number[]; encoding: string }> = [
+  { bytes: [0xef, 0xbb, 0xbf], encoding: "utf-8" },
+  { bytes: [0xfe, 0xff], encoding: "utf-16be" },
+  { bytes: [0xff, 0xfe], encoding: "utf-16le" },
+];
+
+/**
+ * Detect the encoding of a body. Precedence follows the HTML spec:
+ * BOM, then Content-Type charset, then <meta> (HTML only), then UTF-8.
+ */
+export function detectCharset(
+  bytes: Uint8Array,
+  contentType?: string | null
+): { encoding: string; source: CharsetSource } {
+  for (const bom of BOMS) {
+    if (bom.bytes.every((b, i) => bytes[i] === b)) {
+      return { encoding: bom.encoding, source: "bom" };
+    }
+  }
+
+  const headerCharset = normalizeEncoding(parseCharsetParam(contentType));
+  if (headerCharset) {
+    return { encoding: headerCharset, source: "header" };
+  }
+
+  if (!contentType || /html|xml/i.test(contentType)) {
+    const metaCharset = normalizeEncoding(sniffMetaCharset(bytes));
+    if (metaCharset) {
+      // A page that was decodable as ASCII cannot really be UTF-16
+      const encoding = metaCharset.startsWith("utf-16") ? "utf-8" : metaCharset;
+      return { encoding, source: "meta" };
+    }
+  }
+
+  return { encoding: "utf-8", source: "default" };
+}
+
+/**
+ * Decode a body with its detected encoding. The BOM is stripped.
+ */
+export function decodeBody(bytes: Uint8Array, contentType?: string | null): DecodedBody {
+  const { encoding, source } = detectCharset(bytes, contentType);
+  const text = createDecoder(encoding).decode(bytes);
+  return { text, encoding, encodingSource: source };
+}
+
+/**
+ * Read the charset parameter from a Content-Type value.
+ */
+export function parseCharsetParam(contentType?: string | null): string | null {
+  if (!contentType) return null;
+  const match = contentType.match(/charset\s*=\s*["']?([^"';\s]+)/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Find <meta charset="..."> or <meta http-equiv="Content-Type" content="...; charset=...">
+ * in the first bytes of a document. Bytes are read as Latin-1, which keeps
+ * ASCII markup intact regardless of the real encoding.
+ */
+function sniffMetaCharset(bytes: Uint8Array): string | null {
+  const head = new TextDecoder("latin1").decode(bytes.subarray(0, META_SCAN_BYTES));
+  const metaTags = head.match(/<meta\b[^>]*>/gi) || [];
+
+  for (const tag of metaTags) {
+    const attrs = parseAttributes(tag);
+
+    if (attrs.charset) {
+      return attrs.charset.replace(/\/$/, "");
+    }
+
+    if (attrs["http-equiv"]?.toLowerCase() === "content-type") {
+      const charset = parseCharsetParam(attrs.content);
+      if (charset) return charset;
+    }
+  }
+
+  return null;
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const pattern = /([a-z-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi;
+  let match;
+  while ((match = pattern.exec(tag)) !== null) {
+    attrs[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4];
+  }
+  return attrs;
+}
+
+/**
+ * Map a charset label to a supported WHATWG encoding name, or null if unsupported.
+ */
+function normalizeEncoding(label: string | null): string | null {
+  if (!label) return null;
+  try {
+    return createDecoder(label.trim()).encoding;
+  } catch {
+    return null;
+  }
+}
+
+/** TextDecoder for a runtime label (throws RangeError if unsupported) */
+function createDecoder(label: string): TextDecoder {
+  return new TextDecoder(label as Bun.Encoding);
+}
@@ -0,0 +1,309 @@
+/**
+ * Content Chunking
+ * Splits extracted markdown or text into heading-aware chunks for embedding
+ * pipelines. Chunks start at headings, are filled with whole paragraphs up
+ * to the target size (long paragraphs are split at line, sentence or word
+ * boundaries) and overlap the previous chunk of the same section.
+ */
+
+import type { ContentFormat } from "./html-parser";
+
+export type ChunkUnit = "chars" | "tokens";
+
+export interface ChunkOptions {
+  /** Target chunk size */
+  size: number;
+  /** Unit of size and overlap; tokens are approximated as 4 characters */
+  unit: ChunkUnit;
+  /** Text repeated from the end of the previous chunk in the same section */
+  overlap: number;
+}
+
+export interface ContentChunk {
+  /** Stable ID: a hash of the page URL and the chunk text */
+  id: string;
+  index: number;
+  /** Headings the chunk is under, outermost first */
+  headingPath: string[];
+  /** Character offset of the chunk in the content */
+  offset: number;
+  length: number;
+  /** Approximate token count */
+  tokens: number;
+  text: string;
+}
+
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = { size: 500, unit: "tokens", overlap: 50 };
+
+/** Formats that can be chunked (html and json are markup) */
+export const CHUNK_FORMATS: ContentFormat[] = ["markdown", "text"];
+
+/** Characters per approximate token */
+export const CHARS_PER_TOKEN = 4;
+const MIN_CHUNK_CHARS = 100;
+const MAX_CHUNK_CHARS = 100_000;
+
+interface ChunkRange {
+  start: number;
+  end: number;
+  headingPath: string[];
+  /** False while the chunk only has headings */
+  hasBody: boolean;
+}
+
+/** A paragraph, fenced code block or heading, by its position in the content */
+export interface ContentSpan {
+  start: number;
+  end: number;
+  heading?: { level: number; text: string };
+}
+
+/**
+ * Validate the chunk option: `true` (defaults), a size, or an object with
+ * size, unit and overlap. Returns null when chunking is off.
+ * Throws with a message suitable for a 400 response.
+ */
+export function validateChunkOptions(input: unknown): ChunkOptions | null {
+  if (input === undefined || input === null || input === false) {
+    return null;
+  }
+  if (input === true) {
+    return { ...DEFAULT_CHUNK_OPTIONS };
+  }
+
+  const raw = typeof input === "number" ? { size: input } : input;
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("'chunk' must be true, a size, or an object with size, unit and overlap");
+  }
+
+  const { size, unit, overlap } = raw as Record<string, unknown>;
+  const options: ChunkOptions = { ...DEFAULT_CHUNK_OPTIONS };
+
+  if (unit !== undefined) {
+    if (unit !== "chars" && unit !== "tokens") {
+      throw new Error("'chunk.unit' must be \"chars\" or \"tokens\"");
+    }
+    options.unit = unit;
+  }
+
+  if (size !== undefined) {
+    if (typeof size !== "number" || !Number.isInteger(size) || size <= 0) {
+      throw new Error("'chunk.size' must be a positive integer");
+    }
+    options.size = size;
+  }
+
+  const sizeChars = toChars(options.size, options.unit);
+  if (sizeChars < MIN_CHUNK_CHARS || sizeChars > MAX_CHUNK_CHARS) {
+    throw new Error(
+      `'chunk.size' must be between ${MIN_CHUNK_CHARS} and ${MAX_CHUNK_CHARS} characters ` +
+        `(${MIN_CHUNK_CHARS / CHARS_PER_TOKEN} and ${MAX_CHUNK_CHARS / CHARS_PER_TOKEN} tokens)`
+    );
+  }
+
+  if (overlap !== undefined) {
+    if (typeof overlap !== "number" || !Number.isInteger(overlap) || overlap < 0) {
+      throw new Error("'chunk.overlap' must be a non-negative integer");
+    }
+    options.overlap = overlap;
+  } else {
+    // The default overlap is 10% of the size
+    options.overlap = Math.floor(options.size / 10);
+  }
+  if (options.overlap >= options.size / 2) {
+    throw new Error("'chunk.overlap' must be less than half of 'chunk.size'");
+  }
+
+  return options;
+}
+
+/**
+ * Split content into chunks. Headings (markdown only) start a new chunk and
+ * make up the heading path; `key` (the page URL) goes into the chunk IDs.
+ */
+export function chunkContent(
+  content: string,
+  format: ContentFormat,
+  options: ChunkOptions,
+  key: string
+): ContentChunk[] {
+  const limit = toChars(options.size, options.unit);
+  const overlap = toChars(options.overlap, options.unit);
+
+  const ranges: ChunkRange[] = [];
+  const headings: string[] = [];
+  let current: ChunkRange | null = null;
+
+  for (const span of splitSpans(content, format === "markdown")) {
+    if (span.heading) {
+      if (current?.hasBody) {
+        ranges.push(current);
+        current = null;
+      }
+      headings.length = span.heading.level - 1;
+      headings[span.heading.level - 1] = span.heading.text;
+      const headingPath = headings.filter(Boolean);
+      if (current) {
+        current.end = span.end;
+        current.headingPath = headingPath;
+      } else {
+        current = { start: span.start, end: span.end, headingPath, hasBody: false };
+      }
+      continue;
+    }
+
+    // Pieces leave room for the overlap
+    for (const piece of splitLong(content, span, limit - overlap)) {
+      let start = piece.start;
+      if (current?.hasBody && piece.end - current.start > limit) {
+        // Continue the section: repeat the end of the previous chunk
+        start = overlapStart(content, current.start, current.end, overlap) ?? piece.start;
+        ranges.push(current);
+        current = null;
+      }
+      if (current) {
+        current.end = piece.end;
+        current.hasBody = true;
+      } else {
+        current = { start, end: piece.end, headingPath: headings.filter(Boolean), hasBody: true };
+      }
+    }
+  }
+  if (current) ranges.push(current);
+
+  const seen = new Map<string, number>();
+  return ranges.map((range, index) => {
+    const text = content.slice(range.start, range.end);
+    // Identical chunks on a page get distinct IDs by occurrence
+    const occurrence = seen.get(text) ?? 0;
+    seen.set(text, occurrence + 1);
+
+    return {
+      // 64-bit hash as 16 hex digits, so IDs have a fixed width
+      id: Bun.hash(`${key}\n${occurrence}\n${text}`).toString(16).padStart(16, "0"),
+      index,
+      headingPath: range.headingPath,
+      offset: range.start,
+      length: text.length,
+      tokens: Math.ceil(text.length / CHARS_PER_TOKEN),
+      text,
+    };
+  });
+}
+
+/**
+ * Paragraphs (separated by blank lines), fenced code blocks (kept whole)
+ * and ATX headings, in order.
+ */
+export function splitSpans(content: string, markdown: boolean): ContentSpan[] {
+  const spans: ContentSpan[] = [];
+  let start = -1;
+  let end = -1;
+  let fence: string | null = null;
+  let offset = 0;
+
+  const close = () => {
+    if (start >= 0) spans.push({ start, end });
+    start = -1;
+  };
+
+  for (const line of content.split("\n")) {
+    const lineStart = offset;
+    const lineEnd = offset + line.length;
+    offset = lineEnd + 1;
+    const trimmed = line.trim();
+
+    if (fence) {
+      if (trimmed.startsWith(fence)) fence = null;
+      end = lineEnd;
+      continue;
+    }
+
+    if (!trimmed) {
+      close();
+      continue;
+    }
+
+    const heading = markdown ? line.match(/^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/) : null;
+    if (heading) {
+      close();
+      spans.push({
+        start: lineStart,
+        end: lineEnd,
+        heading: { level: heading[1].length, text: headingText(heading[2]) },
+      });
+      continue;
+    }
+
+    if (markdown) {
+      fence = trimmed.match(/^(`{3,}|~{3,})/)?.[1] ?? null;
+    }
+    if (start < 0) start = lineStart;
+    end = lineEnd;
+  }
+  close();
+
+  return spans;
+}
+
+/** Split a span longer than the limit at the last line, sentence or word boundary */
+function splitLong(content: string, span: ContentSpan, limit: number): ContentSpan[] {
+  const pieces: ContentSpan[] = [];
+  let start = span.start;
+
+  while (span.end - start > limit) {
+    const cut = lastBoundary(content, start + Math.floor(limit / 2), start + limit);
+    pieces.push({ start, end: trimEnd(content, start, cut) });
+    start = skipSpace(content, cut, span.end);
+  }
+  if (start < span.end) {
+    pieces.push({ start, end: span.end });
+  }
+
+  return pieces;
+}
+
+/** Position after the last line, sentence or word boundary in [from, to]; `to` if none */
+export function lastBoundary(content: string, from: number, to: number): number {
+  const window = content.slice(from, to);
+  for (const pattern of [/\n/g, /[.!?]["')\]]*\s/g, /\s/g]) {
+    let last = -1;
+    for (const match of window.matchAll(pattern)) {
+      last = match.index + match[0].length;
+    }
+    if (last > 0) return from + last;
+  }
+  return to;
+}
+
+/** Start of the overlap: the first word within `overlap` characters of the end */
+function overlapStart(content: string, start: number, end: number, overlap: number): number | null {
+  if (overlap <= 0) return null;
+  const from = Math.max(start + 1, end - overlap);
+  const space = content.slice(from, end).search(/\s/);
+  if (space < 0) return null;
+  const overlapFrom = skipSpace(content, from + space, end);
+  return overlapFrom < end ? overlapFrom : null;
+}
+
+/** Heading text without markdown escapes and link targets */
+function headingText(text: string): string {
+  return text
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\\([\\`*_{}[\]()#+\-.!])/g, "$1")
+    .trim();
+}
+
+function toChars(value: number, unit: ChunkUnit): number {
+  return unit === "tokens" ? value * CHARS_PER_TOKEN : value;
+}
+
+function skipSpace(content: string, position: number, end: number): number {
+  while (position < end && /\s/.test(content[position])) position++;
+  return position;
+}
+
+function trimEnd(content: string, start: number, end: number): number {
+  while (end > start && /\s/.test(content[end - 1])) end--;
+  return end;
+}
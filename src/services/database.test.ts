@@ -0,0 +1,72 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { DatabaseService, computeOptionsHash, type PageData } from "./database";
+
+const dir = mkdtempSync(join(tmpdir(), "webcontent-db-"));
+const db = new DatabaseService(`file:${join(dir, "pages.db")}`);
+
+const optionsHash = computeOptionsHash({ scope: "main", format: "markdown", include: {}, data: null });
+
+function page(overrides: Partial<PageData>): PageData {
+  const now = Date.now();
+  return {
+    url: "https://example.com/final",
+    domain: "example.com",
+    hostname: "example.com",
+    path: "/final",
+    client: null,
+    title: null,
+    status: 200,
+    content: "content",
+    meta: {},
+    data: {},
+    options: {},
+    timestamp: now,
+    deleteAt: now + 60_000,
+    optionsHash,
+    ...overrides,
+  };
+}
+
+beforeAll(async () => {
+  await db.init();
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("getPage (cached fetch)", () => {
+  test("a redirecting URL matches the page stored under its final URL", async () => {
+    const stored = await db.storePage(
+      page({ url: "https://example.com/final", requestUrl: "https://example.com/old" })
+    );
+
+    const cached = await db.getPage({ url: "https://example.com/old", optionsHash, client: null });
+    expect(cached?.id).toBe(stored.id);
+    expect(cached?.url).toBe("https://example.com/final");
+    expect(cached?.requestUrl).toBe("https://example.com/old");
+  });
+
+  test("the final URL does not match a page requested under another URL", async () => {
+    await db.storePage(page({ url: "https://example.com/target", requestUrl: "https://example.com/from" }));
+
+    expect(await db.getPage({ url: "https://example.com/target", optionsHash, client: null })).toBeNull();
+  });
+
+  test("pages stored without a requested URL match on their URL", async () => {
+    const stored = await db.storePage(page({ url: "https://example.com/legacy" }));
+
+    const cached = await db.getPage({ url: "https://example.com/legacy", optionsHash, client: null });
+    expect(cached?.id).toBe(stored.id);
+  });
+
+  test("the client must match", async () => {
+    await db.storePage(page({ url: "https://example.com/c", requestUrl: "https://example.com/c", client: "a" }));
+
+    expect(await db.getPage({ url: "https://example.com/c", optionsHash, client: "b" })).toBeNull();
+    expect(await db.getPage({ url: "https://example.com/c", optionsHash, client: "a" })).not.toBeNull();
+  });
+});
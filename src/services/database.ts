@@ -1,5 +1,8 @@
 import { createClient, type Client } from "@libsql/client";
 import { nanoid } from "nanoid";
+import type { SiteHandler, SiteHandlerData, HandlerSource } from "./site-handlers";
+import type { RobotsSource, RobotsTxtData } from "./robots";
+import type { ChunkOptions, ContentChunk } from "./chunker";
 
 export interface StoreOptions {
   ttl?: number;
@@ -8,7 +11,10 @@ export interface StoreOptions {
 
 export interface PageData {
   id?: string;
+  /** Final URL, after redirects */
   url: string;
+  /** URL as requested, before redirects; cached fetches match it */
+  requestUrl?: string | null;
   domain: string;
   hostname: string;
   path: string;
@@ -21,17 +27,93 @@ export interface PageData {
   timestamp: number;
   deleteAt: number;
   client: string | null;
+  /** Validators from the response, sent on refresh for conditional requests */
+  etag?: string | null;
+  lastModified?: string | null;
+  /** computeOptionsHash() of the content-affecting options, used by cached fetches */
+  optionsHash?: string | null;
+  /** Chunks of the content, when stored with the chunk option */
+  chunks?: ContentChunk[] | null;
+  /** HTML the content was extracted from (the response body or a document's rendering), for handler tests */
+  body?: string | null;
 }
 
 export interface StoredPage extends PageData {
   id: string;
 }
 
+export interface GetPageOptions {
+  /** Requested URL (before redirects) */
+  url: string;
+  optionsHash: string;
+  /** Must match exactly; null only matches pages stored without a client */
+  client: string | null;
+  /** Maximum age in seconds (default: any unexpired page) */
+  maxAge?: number;
+}
+
+/** Options that change the stored content; everything else is ignored by the hash */
+export interface HashableOptions {
+  scope: unknown;
+  format: string;
+  include: unknown;
+  data: unknown;
+  relativeUrls?: boolean;
+  markdownFlavor?: string;
+  chunk?: ChunkOptions | null;
+  maxLength?: number;
+  maxTokens?: number;
+}
+
+export interface HandlerListFilter {
+  client?: string | null;
+  hostname?: string;
+}
+
 export function generatePageId(): string {
   return nanoid(12);
 }
 
-export class DatabaseService {
+export function generateHandlerId(): string {
+  return nanoid(12);
+}
+
+/**
+ * Hash of the options that affect stored content (scope, format, include,
+ * data, relativeUrls, markdownFlavor, chunk, maxLength, maxTokens). Keys are
+ * sorted, so equal options always give the same hash; the options after data
+ * only count when not the default, so older hashes stay valid.
+ */
+export function computeOptionsHash(options: HashableOptions): string {
+  const hashable = {
+    scope: options.scope,
+    format: options.format,
+    include: options.include,
+    data: options.data ?? null,
+    relativeUrls: options.relativeUrls || undefined,
+    markdownFlavor: options.markdownFlavor !== "basic" ? options.markdownFlavor : undefined,
+    chunk: options.chunk ?? undefined,
+    maxLength: options.maxLength,
+    maxTokens: options.maxTokens,
+  };
+  return Bun.hash(stableStringify(hashable)).toString(16);
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+export class DatabaseService implements HandlerSource, RobotsSource {
   private client: Client;
 
   constructor(url?: string, authToken?: string) {
@@ -69,16 +151,73 @@ export class DatabaseService {
         data JSONB,
         options JSONB,
         timestamp INTEGER NOT NULL,
-        deleteAt INTEGER NOT NULL
+        deleteAt INTEGER NOT NULL,
+        etag TEXT,
+        lastModified TEXT,
+        optionsHash TEXT,
+        chunks JSONB,
+        body TEXT,
+        requestUrl TEXT
       );
     `);
 
+    await this.addColumnIfMissing("pages", "etag", "TEXT");
+    await this.addColumnIfMissing("pages", "lastModified", "TEXT");
+    await this.addColumnIfMissing("pages", "optionsHash", "TEXT");
+    await this.addColumnIfMissing("pages", "chunks", "JSONB");
+    await this.addColumnIfMissing("pages", "body", "TEXT");
+    await this.addColumnIfMissing("pages", "requestUrl", "TEXT");
+
     await this.client.execute(`CREATE INDEX IF NOT EXISTS idx_pages_domain ON pages(domain);`);
     await this.client.execute(`CREATE INDEX IF NOT EXISTS idx_pages_hostname ON pages(hostname);`);
     await this.client.execute(`CREATE INDEX IF NOT EXISTS idx_pages_path ON pages(path);`);
     await this.client.execute(`CREATE INDEX IF NOT EXISTS idx_pages_url ON pages(url);`);
     await this.client.execute(`CREATE INDEX IF NOT EXISTS idx_pages_title ON pages(title);`);
     await this.client.execute(`CREATE INDEX IF NOT EXISTS idx_pages_client ON pages(client);`);
+    await this.client.execute(`CREATE INDEX IF NOT EXISTS idx_pages_url_hash ON pages(url, optionsHash);`);
+    await this.client.execute(`CREATE INDEX IF NOT EXISTS idx_pages_request_url_hash ON pages(requestUrl, optionsHash);`);
+
+    await this.client.execute(`
+      CREATE TABLE IF NOT EXISTS site_handlers (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        description TEXT,
+        hostname TEXT NOT NULL,
+        pathInclude JSONB,
+        pathExclude JSONB,
+        scope JSONB NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        client TEXT,
+        createdAt INTEGER NOT NULL,
+        updatedAt INTEGER NOT NULL
+      );
+    `);
+
+    await this.addColumnIfMissing("site_handlers", "client", "TEXT");
+
+    await this.client.execute(`CREATE INDEX IF NOT EXISTS idx_handlers_hostname ON site_handlers(hostname);`);
+    await this.client.execute(`CREATE INDEX IF NOT EXISTS idx_handlers_client ON site_handlers(client);`);
+
+    await this.client.execute(`
+      CREATE TABLE IF NOT EXISTS robots_txt (
+        origin TEXT PRIMARY KEY,
+        status INTEGER NOT NULL,
+        body TEXT NOT NULL,
+        fetchedAt INTEGER NOT NULL,
+        deleteAt INTEGER NOT NULL
+      );
+    `);
+  }
+
+  /**
+   * Add a column to a table created by an older version of init().
+   */
+  private async addColumnIfMissing(table: string, column: string, definition: string): Promise<void> {
+    const result = await this.client.execute(`PRAGMA table_info(${table});`);
+    if (result.rows.some((row) => row.name === column)) {
+      return;
+    }
+    await this.client.execute(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition};`);
   }
 
   async storePage(data: PageData): Promise<StoredPage> {
@@ -88,8 +227,9 @@ export class DatabaseService {
       sql: `
         INSERT INTO pages (
           id, url, domain, hostname, path, client, title, status,
-          content, meta, data, options, timestamp, deleteAt
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          content, meta, data, options, timestamp, deleteAt, etag, lastModified, optionsHash, chunks, body,
+          requestUrl
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `,
       args: [
         id,
@@ -106,12 +246,64 @@ export class DatabaseService {
         JSON.stringify(data.options),
         data.timestamp,
         data.deleteAt,
+        data.etag ?? null,
+        data.lastModified ?? null,
+        data.optionsHash ?? null,
+        data.chunks ? JSON.stringify(data.chunks) : null,
+        data.body ?? null,
+        data.requestUrl ?? null,
       ],
     });
 
     return { ...data, id };
   }
 
+  /**
+   * Replace the fetched content of a page, keeping its ID and client.
+   */
+  async updatePage(id: string, data: PageData): Promise<StoredPage> {
+    await this.client.execute({
+      sql: `
+        UPDATE pages SET
+          url = ?, domain = ?, hostname = ?, path = ?, title = ?, status = ?,
+          content = ?, meta = ?, data = ?, options = ?, timestamp = ?, deleteAt = ?,
+          etag = ?, lastModified = ?, chunks = ?, body = ?
+        WHERE id = ?
+      `,
+      args: [
+        data.url,
+        data.domain,
+        data.hostname,
+        data.path,
+        data.title,
+        data.status,
+        data.content,
+        JSON.stringify(data.meta),
+        JSON.stringify(data.data),
+        JSON.stringify(data.options),
+        data.timestamp,
+        data.deleteAt,
+        data.etag ?? null,
+        data.lastModified ?? null,
+        data.chunks ? JSON.stringify(data.chunks) : null,
+        data.body ?? null,
+        id,
+      ],
+    });
+
+    return { ...data, id };
+  }
+
+  /**
+   * Extend the expiration of a page that was revalidated unchanged.
+   */
+  async extendPage(id: string, deleteAt: number): Promise<void> {
+    await this.client.execute({
+      sql: `UPDATE pages SET deleteAt = ? WHERE id = ?`,
+      args: [deleteAt, id],
+    });
+  }
+
   async getPageById(id: string, client?: string): Promise<StoredPage | null> {
     let sql = `SELECT * FROM pages WHERE id = ?`;
     const args: (string | null)[] = [id];
@@ -131,6 +323,34 @@ export class DatabaseService {
     return this.rowToStoredPage(result.rows[0]);
   }
 
+  /**
+   * Newest unexpired page for a requested URL, options hash and client
+   * (cached fetch). Pages stored without their requested URL match on the
+   * final URL.
+   */
+  async getPage(options: GetPageOptions): Promise<StoredPage | null> {
+    const now = Date.now();
+    let sql = `SELECT * FROM pages
+      WHERE (requestUrl = ? OR (requestUrl IS NULL AND url = ?))
+        AND optionsHash = ? AND client IS ? AND deleteAt > ?`;
+    const args: (string | number | null)[] = [options.url, options.url, options.optionsHash, options.client, now];
+
+    if (options.maxAge !== undefined) {
+      sql += ` AND timestamp >= ?`;
+      args.push(now - options.maxAge * 1000);
+    }
+
+    sql += ` ORDER BY timestamp DESC LIMIT 1`;
+
+    const result = await this.client.execute({ sql, args });
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.rowToStoredPage(result.rows[0]);
+  }
+
   async getPagesByIds(ids: string[], client?: string): Promise<StoredPage[]> {
     if (ids.length === 0) {
       return [];
@@ -172,6 +392,251 @@ export class DatabaseService {
       options: typeof row.options === "string" ? JSON.parse(row.options) : row.options,
       timestamp: row.timestamp as number,
       deleteAt: row.deleteAt as number,
+      etag: (row.etag as string | null) ?? null,
+      lastModified: (row.lastModified as string | null) ?? null,
+      optionsHash: (row.optionsHash as string | null) ?? null,
+      chunks: typeof row.chunks === "string" ? JSON.parse(row.chunks) : null,
+      body: (row.body as string | null) ?? null,
+      requestUrl: (row.requestUrl as string | null) ?? null,
     };
   }
+
+  async storeHandler(data: SiteHandlerData): Promise<SiteHandler> {
+    const id = data.id || generateHandlerId();
+    const now = Date.now();
+
+    await this.client.execute({
+      sql: `
+        INSERT INTO site_handlers (
+          id, name, description, hostname, pathInclude, pathExclude,
+          scope, enabled, client, createdAt, updatedAt
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `,
+      args: [
+        id,
+        data.name,
+        data.description,
+        data.hostname.toLowerCase(),
+        JSON.stringify(data.pathInclude),
+        JSON.stringify(data.pathExclude),
+        JSON.stringify(data.scope),
+        data.enabled ? 1 : 0,
+        data.client,
+        now,
+        now,
+      ],
+    });
+
+    return { ...data, id, hostname: data.hostname.toLowerCase(), createdAt: now, updatedAt: now };
+  }
+
+  /**
+   * Get a handler by ID.
+   * With a client, only that client's and shared handlers are visible;
+   * with null, only shared handlers.
+   */
+  async getHandlerById(id: string, client?: string | null): Promise<SiteHandler | null> {
+    let sql = `SELECT * FROM site_handlers WHERE id = ?`;
+    const args: (string | null)[] = [id];
+
+    const filter = handlerVisibilityFilter(client);
+    if (filter) {
+      sql += ` AND ${filter.sql}`;
+      args.push(...filter.args);
+    }
+
+    const result = await this.client.execute({ sql, args });
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.rowToSiteHandler(result.rows[0]);
+  }
+
+  /**
+   * Get enabled handlers that could match a hostname:
+   * exact hostname matches plus all wildcard handlers (filtered by the caller).
+   * Client isolation: only the client's own and shared handlers are returned.
+   */
+  async getHandlersForHostname(hostname: string, client: string | null = null): Promise<SiteHandler[]> {
+    let sql = `SELECT * FROM site_handlers WHERE enabled = 1 AND (hostname = ? OR hostname LIKE '*.%')`;
+    const args: (string | null)[] = [hostname.toLowerCase()];
+
+    const filter = handlerVisibilityFilter(client)!;
+    sql += ` AND ${filter.sql}`;
+    args.push(...filter.args);
+
+    const result = await this.client.execute({ sql, args });
+
+    return result.rows.map((row) => this.rowToSiteHandler(row));
+  }
+
+  async listHandlers(filter: HandlerListFilter = {}): Promise<SiteHandler[]> {
+    const conditions: string[] = [];
+    const args: (string | null)[] = [];
+
+    const visibility = handlerVisibilityFilter(filter.client);
+    if (visibility) {
+      conditions.push(visibility.sql);
+      args.push(...visibility.args);
+    }
+
+    if (filter.hostname) {
+      conditions.push(`hostname = ?`);
+      args.push(filter.hostname.toLowerCase());
+    }
+
+    let sql = `SELECT * FROM site_handlers`;
+    if (conditions.length > 0) {
+      sql += ` WHERE ${conditions.join(" AND ")}`;
+    }
+    sql += ` ORDER BY hostname, id`;
+
+    const result = await this.client.execute({ sql, args });
+
+    return result.rows.map((row) => this.rowToSiteHandler(row));
+  }
+
+  /**
+   * Update a handler. With a client, only that client's own handlers can be changed
+   * (shared handlers are read-only for clients); with null, only shared handlers.
+   * Returns null if not found.
+   */
+  async updateHandler(
+    id: string,
+    changes: Partial<Omit<SiteHandlerData, "id" | "client">>,
+    client?: string | null
+  ): Promise<SiteHandler | null> {
+    const existing = await this.getOwnedHandler(id, client);
+    if (!existing) {
+      return null;
+    }
+
+    const updated: SiteHandler = {
+      ...existing,
+      ...changes,
+      id,
+      updatedAt: Date.now(),
+    };
+
+    await this.client.execute({
+      sql: `
+        UPDATE site_handlers SET
+          name = ?, description = ?, hostname = ?, pathInclude = ?, pathExclude = ?,
+          scope = ?, enabled = ?, updatedAt = ?
+        WHERE id = ?
+      `,
+      args: [
+        updated.name,
+        updated.description,
+        updated.hostname.toLowerCase(),
+        JSON.stringify(updated.pathInclude),
+        JSON.stringify(updated.pathExclude),
+        JSON.stringify(updated.scope),
+        updated.enabled ? 1 : 0,
+        updated.updatedAt,
+        id,
+      ],
+    });
+
+    return updated;
+  }
+
+  /**
+   * Delete a handler. Same ownership rules as updateHandler.
+   * Returns false if not found.
+   */
+  async deleteHandler(id: string, client?: string | null): Promise<boolean> {
+    const existing = await this.getOwnedHandler(id, client);
+    if (!existing) {
+      return false;
+    }
+
+    await this.client.execute({
+      sql: `DELETE FROM site_handlers WHERE id = ?`,
+      args: [id],
+    });
+
+    return true;
+  }
+
+  private async getOwnedHandler(id: string, client?: string | null): Promise<SiteHandler | null> {
+    const handler = await this.getHandlerById(id);
+    if (!handler || (client !== undefined && handler.client !== client)) {
+      return null;
+    }
+    return handler;
+  }
+
+  /**
+   * Cached robots.txt for an origin, null if missing or expired.
+   */
+  async getRobotsTxt(origin: string): Promise<RobotsTxtData | null> {
+    const result = await this.client.execute({
+      sql: `SELECT * FROM robots_txt WHERE origin = ? AND deleteAt > ?`,
+      args: [origin, Date.now()],
+    });
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+    return {
+      origin: row.origin as string,
+      status: Number(row.status),
+      body: row.body as string,
+      fetchedAt: Number(row.fetchedAt),
+      deleteAt: Number(row.deleteAt),
+    };
+  }
+
+  async storeRobotsTxt(data: RobotsTxtData): Promise<void> {
+    await this.client.execute({
+      sql: `
+        INSERT OR REPLACE INTO robots_txt (origin, status, body, fetchedAt, deleteAt)
+        VALUES (?, ?, ?, ?, ?)
+      `,
+      args: [data.origin, data.status, data.body, data.fetchedAt, data.deleteAt],
+    });
+  }
+
+  private rowToSiteHandler(row: any): SiteHandler {
+    return {
+      id: row.id as string,
+      name: row.name as string,
+      description: row.description as string | null,
+      hostname: row.hostname as string,
+      pathInclude: parseJsonColumn(row.pathInclude) || [],
+      pathExclude: parseJsonColumn(row.pathExclude) || [],
+      scope: parseJsonColumn(row.scope),
+      enabled: Number(row.enabled) === 1,
+      client: row.client as string | null,
+      createdAt: row.createdAt as number,
+      updatedAt: row.updatedAt as number,
+    };
+  }
+}
+
+/**
+ * SQL condition for handler client isolation.
+ * - undefined: no filter
+ * - null: shared handlers only
+ * - client: the client's own handlers plus shared ones
+ */
+function handlerVisibilityFilter(
+  client: string | null | undefined
+): { sql: string; args: string[] } | null {
+  if (client === undefined) {
+    return null;
+  }
+  if (client === null) {
+    return { sql: `client IS NULL`, args: [] };
+  }
+  return { sql: `(client = ? OR client IS NULL)`, args: [client] };
+}
+
+function parseJsonColumn(value: unknown): any {
+  return typeof value === "string" ? JSON.parse(value) : value;
 }
@@ -0,0 +1,372 @@
+/**
+ * Documents
+ * Detects the type of a response (Content-Type, else the body) and handles
+ * non-HTML bodies: PDF text per page, JSON, RSS/Atom feeds, XML and plain
+ * text. Every document gets an HTML rendering, so metadata, scopes and data
+ * plugins work the same way as for web pages.
+ */
+
+import { DOMParser } from "linkedom";
+import { extractText, getDocumentProxy, getMeta } from "unpdf";
+import {
+  extractWithScope,
+  type ContentFormat,
+  type ExtractOptions,
+  type ExtractionResult,
+} from "./html-parser";
+import { convertToJson } from "./blocks";
+import { truncateContent } from "./truncation";
+import { isSimpleScope, type Scope } from "./scope";
+import type { FetchResult } from "./web-fetcher";
+
+export type DocumentType = "html" | "pdf" | "json" | "feed" | "xml" | "text";
+
+export interface ParsedDocument {
+  type: DocumentType;
+  /** The body for HTML, otherwise an HTML rendering used for metadata, scopes and plugins */
+  html: string;
+  /** Content passed through as-is (pretty-printed JSON, XML, plain text) */
+  text?: string;
+  /** PDF text, one entry per page */
+  pages?: string[];
+}
+
+export type DocumentErrorCode = "invalid_document" | "unsupported_scope";
+
+/**
+ * Custom error class for documents that cannot be parsed (e.g. a broken PDF)
+ * or extracted with the requested scope
+ */
+export class DocumentError extends Error {
+  code: DocumentErrorCode;
+  type: DocumentType;
+
+  constructor(message: string, type: DocumentType, code: DocumentErrorCode = "invalid_document") {
+    super(message);
+    this.name = "DocumentError";
+    this.type = type;
+    this.code = code;
+  }
+}
+
+/** Bytes inspected when sniffing a body without a useful Content-Type */
+const SNIFF_LENGTH = 2048;
+
+/**
+ * Detect the document type from the Content-Type header. Missing and generic
+ * types (application/octet-stream, ...) are sniffed from the body; anything
+ * unrecognized is treated as HTML.
+ */
+export function detectDocumentType(contentType: string | undefined, bytes: Uint8Array): DocumentType {
+  const mime = contentType?.split(";")[0].trim().toLowerCase() ?? "";
+
+  if (mime === "text/html" || mime === "application/xhtml+xml") return "html";
+  if (mime === "application/pdf") return "pdf";
+  if (mime === "application/json" || mime.endsWith("+json")) return "json";
+  if (mime === "application/rss+xml" || mime === "application/atom+xml") return "feed";
+  if (mime === "text/xml" || mime === "application/xml" || mime.endsWith("+xml")) {
+    return sniffXml(sniffText(bytes));
+  }
+  if (mime.startsWith("text/")) return "text";
+
+  const head = sniffText(bytes);
+  if (head.startsWith("%PDF-")) return "pdf";
+  if (head.startsWith("<?xml") || /^<(rss|feed|rdf:RDF)[\s>]/.test(head)) return sniffXml(head);
+  if (head.startsWith("{") || head.startsWith("[")) return "json";
+  return "html";
+}
+
+function sniffText(bytes: Uint8Array): string {
+  return new TextDecoder("latin1")
+    .decode(bytes.subarray(0, SNIFF_LENGTH))
+    .replace(/^(\xef\xbb\xbf|\xfe\xff|\xff\xfe)/, "")
+    .trimStart();
+}
+
+/** XML that is really XHTML or a feed */
+function sniffXml(head: string): DocumentType {
+  if (/<(rss|feed|rdf:RDF)[\s>]/.test(head)) return "feed";
+  if (/<html[\s>]/i.test(head)) return "html";
+  return "xml";
+}
+
+/**
+ * Parse a fetched body by its document type. Throws DocumentError if a PDF
+ * cannot be read; invalid JSON and XML fall back to plain text.
+ */
+export async function parseDocument(
+  result: Pick<FetchResult, "url" | "body" | "bytes" | "headers">
+): Promise<ParsedDocument> {
+  const type = detectDocumentType(result.headers["content-type"], result.bytes);
+
+  switch (type) {
+    case "html":
+      return { type, html: result.body };
+    case "pdf":
+      return parsePdf(result.bytes);
+    case "json":
+      try {
+        return textDocument("json", JSON.stringify(JSON.parse(result.body), null, 2));
+      } catch {
+        return textDocument("text", result.body);
+      }
+    case "feed":
+      return parseFeed(result.body, result.url) ?? textDocument("xml", result.body);
+    case "xml":
+    case "text":
+      return textDocument(type, result.body);
+  }
+}
+
+/**
+ * Extract content from a parsed document. HTML pages and feeds go through
+ * extractWithScope(); PDF, JSON, XML and text are always the whole document
+ * (truncated to maxLength / maxTokens like extracted content), so they only
+ * take main, full and auto. Throws DocumentError ("unsupported_scope") for
+ * selector, function and handler scopes on those documents.
+ */
+export async function extractDocument(
+  document: ParsedDocument,
+  scope: Scope,
+  format: ContentFormat,
+  url?: string,
+  options: ExtractOptions = {}
+): Promise<ExtractionResult> {
+  if (document.type === "html") {
+    return extractWithScope(document.html, scope, format, url, options);
+  }
+
+  if (document.type === "feed") {
+    // The rendering has no boilerplate, and "main" would keep only the first item
+    const feedScope = scope === "main" || scope === "auto" ? "full" : scope;
+    return extractWithScope(document.html, feedScope, format, url, options);
+  }
+
+  if (!isSimpleScope(scope)) {
+    throw new DocumentError(
+      `The ${scope.type} scope is not supported for ${document.type} documents; use "main", "full" or "auto"`,
+      document.type,
+      "unsupported_scope"
+    );
+  }
+
+  const { content, truncation } = truncateContent(renderDocument(document, format), format, options);
+  return {
+    content,
+    scopeResolution: { scopeUsed: "full", scopeResolved: false },
+    ...(truncation && { truncation }),
+  };
+}
+
+/**
+ * Content of a PDF or pass-through document. PDF page boundaries are
+ * `<section data-page="n">` (html), `<!-- page n -->` (markdown) and a form
+ * feed between pages (text); json has the pages' paragraphs, and
+ * pass-through documents as one code block.
+ */
+function renderDocument(document: ParsedDocument, format: ContentFormat): string {
+  if (document.pages) {
+    const pages = document.pages.map((page) => page.trim());
+    switch (format) {
+      case "html":
+        return renderPdfPages(pages);
+      case "markdown":
+        return pages.map((page, i) => `<!-- page ${i + 1} -->\n\n${page}`).join("\n\n");
+      case "text":
+        return pages.join("\n\f\n");
+      case "json":
+        return convertToJson(renderPdfPages(pages));
+    }
+  }
+
+  const text = document.text ?? "";
+  switch (format) {
+    case "html":
+      return `<pre>${escapeHtml(text)}</pre>`;
+    case "json":
+      return convertToJson(`<pre>${escapeHtml(text)}</pre>`);
+    default:
+      return text;
+  }
+}
+
+function textDocument(type: DocumentType, text: string): ParsedDocument {
+  return { type, text, html: `<html><body><pre>${escapeHtml(text)}</pre></body></html>` };
+}
+
+async function parsePdf(bytes: Uint8Array): Promise<ParsedDocument> {
+  let pages: string[];
+  let info: Record<string, unknown>;
+
+  try {
+    // pdf.js may take ownership of the buffer, so pass a copy
+    const pdf = await getDocumentProxy(new Uint8Array(bytes));
+    const [extracted, meta] = await Promise.all([
+      extractText(pdf, { mergePages: false }),
+      getMeta(pdf),
+    ]);
+    pages = extracted.text;
+    info = meta.info ?? {};
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new DocumentError(`Could not read PDF: ${message}`, "pdf");
+  }
+
+  const head = [
+    metaTag("title", info.Title),
+    metaTag("description", info.Subject),
+    metaTag("keywords", info.Keywords),
+    metaTag("author", info.Author),
+  ].join("");
+
+  return {
+    type: "pdf",
+    pages,
+    html: `<html><head>${head}</head><body>${renderPdfPages(pages)}</body></html>`,
+  };
+}
+
+function renderPdfPages(pages: string[]): string {
+  return pages
+    .map((page, i) => {
+      const lines = page.split("\n").map((line) => line.trim()).filter(Boolean);
+      return `<section data-page="${i + 1}">${lines.map((line) => `<p>${escapeHtml(line)}</p>`).join("")}</section>`;
+    })
+    .join("\n");
+}
+
+function metaTag(name: string, value: unknown): string {
+  if (typeof value !== "string" || !value.trim()) return "";
+  if (name === "title") return `<title>${escapeHtml(value.trim())}</title>`;
+  return `<meta name="${name}" content="${escapeHtml(value.trim())}">`;
+}
+
+/** The parts of a linkedom XML element used for feeds */
+interface XmlElement {
+  tagName: string;
+  children: Iterable<XmlElement>;
+  textContent: string | null;
+  innerHTML: string;
+  getAttribute(name: string): string | null;
+}
+
+interface FeedItem {
+  title: string;
+  link: string | null;
+  date: string | null;
+  author: string | null;
+  /** Item body as HTML */
+  html: string;
+}
+
+/**
+ * Render an RSS 2.0, RSS 1.0 (RDF) or Atom feed as HTML: the feed title as
+ * h1, one article per item with a linked h2. Returns null if the XML is not
+ * a feed.
+ */
+function parseFeed(xml: string, baseUrl: string): ParsedDocument | null {
+  let root: XmlElement | null;
+  try {
+    root = new DOMParser().parseFromString(xml, "text/xml").documentElement as unknown as XmlElement | null;
+  } catch {
+    return null;
+  }
+  if (!root) return null;
+
+  const rootName = root.tagName.toLowerCase();
+  let title: string | null;
+  let description: string | null;
+  let items: FeedItem[];
+
+  if (rootName === "rss" || rootName === "rdf:rdf") {
+    const channel = childElements(root, "channel")[0];
+    if (!channel) return null;
+    title = childText(channel, "title");
+    description = childText(channel, "description");
+    // RSS 2.0 items are inside <channel>, RSS 1.0 items are siblings of it
+    const itemElements = [...childElements(channel, "item"), ...childElements(root, "item")];
+    items = itemElements.map((item) => ({
+      title: childText(item, "title") ?? "",
+      link: resolveLink(childText(item, "link") ?? childText(item, "guid"), baseUrl),
+      date: childText(item, "pubdate", "dc:date"),
+      author: childText(item, "author", "dc:creator"),
+      html: childText(item, "content:encoded", "description") ?? "",
+    }));
+  } else if (rootName === "feed") {
+    title = childText(root, "title");
+    description = childText(root, "subtitle");
+    items = childElements(root, "entry").map((entry) => ({
+      title: childText(entry, "title") ?? "",
+      link: resolveLink(atomLink(entry), baseUrl),
+      date: childText(entry, "published", "updated"),
+      author: childElements(entry, "author").map((author) => childText(author, "name")).find(Boolean) ?? null,
+      html: atomContent(childElements(entry, "content")[0] ?? childElements(entry, "summary")[0]),
+    }));
+  } else {
+    return null;
+  }
+
+  const head = metaTag("title", title) + metaTag("description", description);
+  const articles = items.map((item) => {
+    const heading = item.link
+      ? `<a href="${escapeHtml(item.link)}">${escapeHtml(item.title)}</a>`
+      : escapeHtml(item.title);
+    const byline = [item.author, item.date].filter(Boolean).map((s) => escapeHtml(s!)).join(" · ");
+    return `<article><h2>${heading}</h2>${byline ? `<p>${byline}</p>` : ""}${item.html}</article>`;
+  });
+
+  const body = [
+    title ? `<h1>${escapeHtml(title)}</h1>` : "",
+    description ? `<p>${escapeHtml(description)}</p>` : "",
+    ...articles,
+  ].join("\n");
+
+  return { type: "feed", html: `<html><head>${head}</head><body>${body}</body></html>` };
+}
+
+/** Direct children by tag name (case-insensitive, prefixes included) */
+function childElements(parent: XmlElement, name: string): XmlElement[] {
+  return [...parent.children].filter((child) => child.tagName.toLowerCase() === name);
+}
+
+/** Text of the first direct child with one of the names */
+function childText(parent: XmlElement, ...names: string[]): string | null {
+  for (const name of names) {
+    const text = childElements(parent, name)[0]?.textContent?.trim();
+    if (text) return text;
+  }
+  return null;
+}
+
+/** rel="alternate" (or no rel) link of an Atom entry */
+function atomLink(entry: XmlElement): string | null {
+  const links = childElements(entry, "link");
+  const link = links.find((l) => (l.getAttribute("rel") ?? "alternate") === "alternate") ?? links[0];
+  return link?.getAttribute("href") ?? null;
+}
+
+/** Atom text constructs: type="html" is escaped HTML, "xhtml" is inline markup, "text" is plain */
+function atomContent(element: XmlElement | undefined): string {
+  if (!element) return "";
+  const type = element.getAttribute("type") ?? "text";
+  if (type === "html") return element.textContent ?? "";
+  if (type === "xhtml") return element.innerHTML;
+  return `<p>${escapeHtml(element.textContent?.trim() ?? "")}</p>`;
+}
+
+function resolveLink(link: string | null, baseUrl: string): string | null {
+  if (!link) return null;
+  try {
+    return new URL(link, baseUrl).href;
+  } catch {
+    return null;
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -5,6 +5,7 @@
  */
 
 import { parseHTML } from "linkedom";
+import { compileXPath, evaluateXPath, isXPath, XPATH_PREFIX, type XPathAdapter } from "./xpath";
 
 /** Serialized node data passed to sandbox */
 export interface SerializedNodeData {
@@ -55,6 +56,33 @@ const BLOCK_ELEMENTS = new Set([
   "dl",
 ]);
 
+/** The parts of a linkedom node that selection uses */
+interface LinkedomNode {
+  nodeType: number;
+  childNodes: ArrayLike<LinkedomNode>;
+  parentNode: LinkedomNode | null;
+  tagName?: string;
+  attributes?: ArrayLike<{ name: string; value: string }>;
+  textContent: string | null;
+  querySelectorAll(selector: string): ArrayLike<LinkedomNode>;
+}
+
+/** XPath access to the linkedom tree (elements and text nodes) */
+const LINKEDOM_ADAPTER: XPathAdapter<LinkedomNode> = {
+  children: (node) =>
+    Array.from(node.childNodes).filter((child) => child.nodeType === 1 || child.nodeType === 3),
+  parent: (node) => node.parentNode,
+  tagName: (node) => (node.nodeType === 1 && node.tagName ? node.tagName.toLowerCase() : null),
+  isText: (node) => node.nodeType === 3,
+  attributes: (node) =>
+    node.nodeType === 1 && node.attributes
+      ? Object.fromEntries(
+          Array.from(node.attributes).map((attr) => [attr.name.toLowerCase(), attr.value])
+        )
+      : {},
+  text: (node) => node.textContent || "",
+};
+
 /**
  * DOMBridge parses HTML on the host side and provides methods
  * for querying and traversing the DOM. Results are serialized
@@ -76,8 +104,8 @@ export class DOMBridge {
     context?: Element
   ): SerializedNodeData | null {
     try {
-      const el = (context || this.document).querySelector(selector);
-      return el ? this.serializeNode(el as Element) : null;
+      const el = this.select(selector, context)[0];
+      return el ? this.serializeNode(el) : null;
     } catch {
       return null; // Invalid selector
     }
@@ -89,13 +117,22 @@ export class DOMBridge {
     context?: Element
   ): SerializedNodeData[] {
     try {
-      const elements = (context || this.document).querySelectorAll(selector);
-      return Array.from(elements).map((el) => this.serializeNode(el as Element));
+      return this.select(selector, context).map((el) => this.serializeNode(el));
     } catch {
       return []; // Invalid selector
     }
   }
 
+  /** Elements matching a CSS or `xpath:` selector (XPath is relative to the context) */
+  private select(selector: string, context?: LinkedomNode): LinkedomNode[] {
+    const root: LinkedomNode = context || this.document;
+    if (isXPath(selector)) {
+      const compiled = compileXPath(selector.slice(XPATH_PREFIX.length));
+      return evaluateXPath(compiled, root, LINKEDOM_ADAPTER);
+    }
+    return Array.from(root.querySelectorAll(selector));
+  }
+
   /** Scoped child query */
   childQuery(nodeId: number, selector: string): SerializedNodeData | null {
     const element = this.nodeMap.get(nodeId);
@@ -0,0 +1,233 @@
+/**
+ * GitHub-Flavored Markdown
+ * Turndown rules for the "gfm" markdown flavor: tables (colspan/rowspan,
+ * header detection), strikethrough, task list items and fenced code blocks
+ * with the language taken from class names. The table grid and code language
+ * helpers are shared with the json format.
+ */
+
+/** The parts of Turndown's DOM nodes used by the rules */
+interface TurndownNode {
+  nodeName: string;
+  textContent: string | null;
+  innerHTML: string;
+  childNodes: ArrayLike<TurndownNode>;
+  parentNode: TurndownNode | null;
+  firstChild: TurndownNode | null;
+  nextSibling: TurndownNode | null;
+  getAttribute?(name: string): string | null;
+}
+
+interface TurndownRule {
+  filter: string | string[] | ((node: TurndownNode) => boolean);
+  replacement: (content: string, node: TurndownNode) => string;
+}
+
+/** The parts of a TurndownService used to install the rules */
+interface TurndownLike {
+  addRule(key: string, rule: TurndownRule): unknown;
+  turndown(html: string): string;
+}
+
+/** Class name patterns carrying a code language (Prism, highlight.js, GitHub) */
+const LANGUAGE_PATTERNS = [/(?:^|\s)language-(\S+)/, /(?:^|\s)lang-(\S+)/, /(?:^|\s)highlight-source-(\S+)/];
+
+/** Upper bound for colspan/rowspan, against malformed markup */
+const MAX_SPAN = 100;
+
+/** A table cell's content and span attributes */
+export interface SpannedCell {
+  text: string;
+  colspan: string | null;
+  rowspan: string | null;
+}
+
+/**
+ * Add the GFM rules to a Turndown service.
+ */
+export function addGfmRules(service: TurndownLike): void {
+  service.addRule("gfmTable", {
+    filter: "table",
+    replacement: (_content, node) => convertTable(node, service),
+  });
+
+  service.addRule("gfmStrikethrough", {
+    filter: ["del", "s", "strike"],
+    replacement: (content) => (content.trim() ? `~~${content}~~` : content),
+  });
+
+  service.addRule("gfmTaskListItem", {
+    filter: (node) =>
+      node.nodeName === "INPUT" &&
+      attribute(node, "type")?.toLowerCase() === "checkbox" &&
+      isInListItem(node),
+    replacement: (_content, node) => {
+      const box = attribute(node, "checked") !== null ? "[x]" : "[ ]";
+      // Keep a single space before the item text
+      return /^\s/.test(node.nextSibling?.textContent ?? "") ? box : `${box} `;
+    },
+  });
+
+  service.addRule("gfmFencedCodeBlock", {
+    filter: (node) => node.nodeName === "PRE",
+    replacement: (_content, node) => {
+      const code = node.firstChild?.nodeName === "CODE" ? node.firstChild : node;
+      const classNames = [code, node, node.parentNode].map((el) => (el ? attribute(el, "class") ?? "" : ""));
+      const language = codeLanguage(classNames) ?? "";
+      const text = (code.textContent ?? "").replace(/\n$/, "");
+
+      // The fence must be longer than any backtick run in the code
+      const longestRun = Math.max(0, ...(text.match(/`{3,}/g) ?? []).map((run) => run.length));
+      const fence = "`".repeat(Math.max(3, longestRun + 1));
+      return `\n\n${fence}${language}\n${text}\n${fence}\n\n`;
+    },
+  });
+}
+
+/**
+ * Convert a table to a GFM table (spans as in tableGrid()). Leading thead
+ * or all-th rows form the header; without one, the header row is empty.
+ * Single-column tables and tables with nested tables are layout, not data:
+ * their cells are output as blocks.
+ */
+function convertTable(table: TurndownNode, service: TurndownLike): string {
+  const rows = tableRows(table);
+  if (rows.length === 0) return "";
+
+  const caption = children(table).find((child) => child.nodeName === "CAPTION");
+  const captionText = caption ? `${cellMarkdown(caption, service)}\n\n` : "";
+
+  const cells = tableGrid(
+    rows.map((row) =>
+      children(row).filter(isCell).map((cell) => ({
+        text: cellMarkdown(cell, service),
+        colspan: attribute(cell, "colspan"),
+        rowspan: attribute(cell, "rowspan"),
+      }))
+    )
+  );
+
+  const width = cells[0].length;
+  const isLayout = width <= 1 || rows.some((row) => hasDescendant(row, "TABLE"));
+  if (isLayout) {
+    const blocks = cells.flat().filter(Boolean).map((text) => text.replace(/<br>/g, "\n"));
+    return `\n\n${captionText}${blocks.join("\n\n")}\n\n`;
+  }
+
+  let headerCount = 0;
+  while (headerCount < rows.length && isHeaderRow(rows[headerCount])) headerCount++;
+  const header = headerCount > 0
+    ? mergeHeaderRows(cells.slice(0, headerCount))
+    : Array.from({ length: width }, () => "");
+
+  const lines = [
+    formatRow(header),
+    formatRow(header.map(() => "---")),
+    ...cells.slice(headerCount).map(formatRow),
+  ];
+  return `\n\n${captionText}${lines.join("\n")}\n\n`;
+}
+
+/**
+ * Lay out table rows as a rectangular grid. Spanned cells repeat their
+ * content down (rowspan) and are left empty to the right (colspan).
+ */
+export function tableGrid(rows: SpannedCell[][]): string[][] {
+  const grid: string[][] = rows.map(() => []);
+  rows.forEach((row, r) => {
+    let c = 0;
+    for (const cell of row) {
+      while (grid[r][c] !== undefined) c++;
+      const colspan = span(cell.colspan, MAX_SPAN) || 1;
+      // rowspan="0" spans the rest of the table
+      const rowspan = span(cell.rowspan, rows.length - r) || rows.length - r;
+      for (let dr = 0; dr < rowspan; dr++) {
+        for (let dc = 0; dc < colspan; dc++) {
+          grid[r + dr][c + dc] = dc === 0 ? cell.text : "";
+        }
+      }
+      c += colspan;
+    }
+  });
+
+  const width = Math.max(0, ...grid.map((row) => row.length));
+  return grid.map((row) => Array.from({ length: width }, (_, c) => row[c] ?? ""));
+}
+
+/** Merge several header rows into one, per column (spanned labels only once) */
+export function mergeHeaderRows(rows: string[][]): string[] {
+  return rows[0].map((_, c) => [...new Set(rows.map((row) => row[c]).filter(Boolean))].join(" "));
+}
+
+/**
+ * Code language from class names, checked in order (e.g. code, pre, and the
+ * pre's wrapper such as GitHub's div.highlight).
+ */
+export function codeLanguage(classNames: string[]): string | undefined {
+  for (const className of classNames) {
+    for (const pattern of LANGUAGE_PATTERNS) {
+      const match = className.match(pattern);
+      if (match) return match[1];
+    }
+  }
+  return undefined;
+}
+
+/** Rows of a table in document order, not including rows of nested tables */
+function tableRows(table: TurndownNode): TurndownNode[] {
+  return children(table).flatMap((child) => {
+    if (child.nodeName === "TR") return [child];
+    if (["THEAD", "TBODY", "TFOOT"].includes(child.nodeName)) {
+      return children(child).filter((row) => row.nodeName === "TR");
+    }
+    return [];
+  });
+}
+
+function isHeaderRow(row: TurndownNode): boolean {
+  if (row.parentNode?.nodeName === "THEAD") return true;
+  const cells = children(row).filter(isCell);
+  return cells.length > 0 && cells.every((cell) => cell.nodeName === "TH");
+}
+
+function isCell(node: TurndownNode): boolean {
+  return node.nodeName === "TD" || node.nodeName === "TH";
+}
+
+/** Cell content as single-line markdown: line breaks become <br>, pipes are escaped */
+function cellMarkdown(cell: TurndownNode, service: TurndownLike): string {
+  return service
+    .turndown(cell.innerHTML)
+    .trim()
+    .replace(/\|/g, "\\|")
+    .replace(/\s*\n+\s*/g, "<br>");
+}
+
+function formatRow(cells: string[]): string {
+  return `| ${cells.join(" | ")} |`;
+}
+
+function span(value: string | null, max: number): number {
+  const parsed = parseInt(value ?? "", 10);
+  if (Number.isNaN(parsed)) return 1;
+  return Math.min(Math.max(parsed, 0), max);
+}
+
+function isInListItem(node: TurndownNode): boolean {
+  const parent = node.parentNode;
+  if (parent?.nodeName === "LI") return true;
+  // <li><p><input type="checkbox"> ...</p></li>
+  return parent?.nodeName === "P" && parent.parentNode?.nodeName === "LI";
+}
+
+function hasDescendant(node: TurndownNode, nodeName: string): boolean {
+  return children(node).some((child) => child.nodeName === nodeName || hasDescendant(child, nodeName));
+}
+
+function children(node: TurndownNode): TurndownNode[] {
+  return Array.from(node.childNodes);
+}
+
+function attribute(node: TurndownNode, name: string): string | null {
+  return node.getAttribute?.(name) ?? null;
+}
@@ -0,0 +1,381 @@
+/**
+ * Site Handler Test Harness
+ * Runs a handler's scope against fixture HTML and compares the output
+ * with expected results, so broken handlers are caught before they serve traffic.
+ */
+
+import { extractBySelector, type ContentFormat } from "./html-parser";
+import { runScopeFunction } from "./sandbox";
+import { isFunctionScope } from "./scope";
+import type { SiteHandler } from "./site-handlers";
+import type { DatabaseService } from "./database";
+
+/** Maximum number of fixtures per test run */
+export const MAX_HANDLER_FIXTURES = 50;
+
+/**
+ * Fixture as provided by a client. Exactly one HTML source is required:
+ * - `html`: inline HTML
+ * - `file`: path to an HTML file (CLI only)
+ * - `pageId`: stored page ID (its stored HTML body is used, its URL as URL)
+ */
+export interface HandlerFixtureInput {
+  name?: string;
+  html?: string;
+  file?: string;
+  pageId?: string;
+  url?: string;
+  /** Expected output: string content, or the object a function scope returns */
+  expected?: unknown;
+}
+
+/** Fixture with its HTML loaded */
+export interface HandlerFixture {
+  name: string;
+  html: string;
+  url: string;
+  expected?: unknown;
+  /** Set when the HTML source could not be loaded */
+  error?: string;
+}
+
+export type FixtureStatus = "pass" | "fail" | "error" | "ran";
+
+export interface FixtureResult {
+  name: string;
+  /** "ran" = executed without errors, no expected value to compare */
+  status: FixtureStatus;
+  durationMs: number;
+  actual?: unknown;
+  expected?: unknown;
+  diff?: string;
+  error?: string;
+}
+
+export interface HandlerTestReport {
+  handlerId: string;
+  scopeType: "selector" | "function";
+  format: ContentFormat;
+  passed: boolean;
+  summary: {
+    total: number;
+    passed: number;
+    failed: number;
+    errors: number;
+  };
+  fixtures: FixtureResult[];
+}
+
+/**
+ * Validate fixture input from an API body or CLI fixtures file.
+ */
+export function validateHandlerFixtures(
+  obj: unknown,
+  options: { allowFiles?: boolean } = {}
+): HandlerFixtureInput[] {
+  if (!Array.isArray(obj) || obj.length === 0) {
+    throw new Error("'fixtures' must be a non-empty array");
+  }
+
+  if (obj.length > MAX_HANDLER_FIXTURES) {
+    throw new Error(`Maximum ${MAX_HANDLER_FIXTURES} fixtures per test`);
+  }
+
+  return obj.map((item, index) => {
+    if (typeof item !== "object" || item === null) {
+      throw new Error(`Fixture ${index + 1} must be an object`);
+    }
+
+    const fixture = item as Record<string, unknown>;
+    const sources = ["html", "file", "pageId"].filter(
+      (key) => typeof fixture[key] === "string"
+    );
+
+    if (sources.length !== 1) {
+      throw new Error(`Fixture ${index + 1} requires exactly one of 'html', 'file' or 'pageId'`);
+    }
+
+    if (sources[0] === "file" && !options.allowFiles) {
+      throw new Error(`Fixture ${index + 1}: 'file' fixtures are only supported by the CLI`);
+    }
+
+    if (fixture.url !== undefined && typeof fixture.url !== "string") {
+      throw new Error(`Fixture ${index + 1}: 'url' must be a string`);
+    }
+
+    return fixture as HandlerFixtureInput;
+  });
+}
+
+/**
+ * Default URL passed to handler functions when a fixture has none.
+ */
+export function defaultFixtureUrl(handler: SiteHandler): string {
+  return `https://${handler.hostname.replace(/^\*\./, "")}/`;
+}
+
+/**
+ * Load fixture HTML from inline HTML, stored pages (via `db`) or files (via `readFile`).
+ * Sources that cannot be loaded become fixtures with an `error`.
+ */
+export async function loadHandlerFixtures(
+  inputs: HandlerFixtureInput[],
+  handler: SiteHandler,
+  sources: {
+    db?: DatabaseService;
+    client?: string;
+    readFile?: (path: string) => Promise<string>;
+  } = {}
+): Promise<HandlerFixture[]> {
+  const pageIds = inputs.map((f) => f.pageId).filter((id): id is string => !!id);
+  const pages = pageIds.length > 0 && sources.db
+    ? await sources.db.getPagesByIds(pageIds, sources.client)
+    : [];
+  const pageMap = new Map(pages.map((p) => [p.id, p]));
+
+  return Promise.all(
+    inputs.map(async (input, index): Promise<HandlerFixture> => {
+      const name = input.name || input.pageId || input.file || `fixture-${index + 1}`;
+      const fixture: HandlerFixture = {
+        name,
+        html: "",
+        url: input.url || defaultFixtureUrl(handler),
+        expected: input.expected,
+      };
+
+      if (input.html !== undefined) {
+        fixture.html = input.html;
+      } else if (input.pageId) {
+        const page = pageMap.get(input.pageId);
+        if (!page) {
+          fixture.error = `Page not found with ID: ${input.pageId}`;
+        } else if (!page.body) {
+          // The content is extracted output, not the HTML a handler runs on
+          fixture.error = `Page ${input.pageId} has no stored HTML (store it with the body option)`;
+        } else {
+          fixture.html = page.body;
+          fixture.url = input.url || page.url;
+        }
+      } else if (input.file) {
+        try {
+          if (!sources.readFile) {
+            throw new Error("File fixtures are not supported here");
+          }
+          fixture.html = await sources.readFile(input.file);
+        } catch (error) {
+          fixture.error = error instanceof Error ? error.message : String(error);
+        }
+      }
+
+      return fixture;
+    })
+  );
+}
+
+/**
+ * Run a handler's scope against each fixture and compare with expected output.
+ * Function scopes run via runScopeFunction (raw result is compared),
+ * selector scopes via extractBySelector in the requested format.
+ */
+export async function runHandlerTest(
+  handler: SiteHandler,
+  fixtures: HandlerFixture[],
+  format: ContentFormat = "markdown"
+): Promise<HandlerTestReport> {
+  const results: FixtureResult[] = [];
+
+  for (const fixture of fixtures) {
+    results.push(await runFixture(handler, fixture, format));
+  }
+
+  const summary = {
+    total: results.length,
+    passed: results.filter((r) => r.status === "pass" || r.status === "ran").length,
+    failed: results.filter((r) => r.status === "fail").length,
+    errors: results.filter((r) => r.status === "error").length,
+  };
+
+  return {
+    handlerId: handler.id,
+    scopeType: handler.scope.type,
+    format,
+    passed: summary.failed === 0 && summary.errors === 0,
+    summary,
+    fixtures: results,
+  };
+}
+
+async function runFixture(
+  handler: SiteHandler,
+  fixture: HandlerFixture,
+  format: ContentFormat
+): Promise<FixtureResult> {
+  if (fixture.error) {
+    return { name: fixture.name, status: "error", durationMs: 0, error: fixture.error };
+  }
+
+  const start = performance.now();
+  let actual: unknown;
+
+  try {
+    if (isFunctionScope(handler.scope)) {
+      const result = await runScopeFunction(handler.scope.code, fixture.html, fixture.url, {
+        timeout: handler.scope.timeout ?? 5000,
+      });
+      if (!result.ok) {
+        throw new Error(result.error || "Function execution failed");
+      }
+      actual = result.data ?? null;
+    } else {
+      actual = extractBySelector(fixture.html, handler.scope, format, fixture.url);
+    }
+  } catch (error) {
+    return {
+      name: fixture.name,
+      status: "error",
+      durationMs: elapsed(start),
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  const durationMs = elapsed(start);
+
+  if (fixture.expected === undefined) {
+    return { name: fixture.name, status: "ran", durationMs, actual };
+  }
+
+  const actualText = toComparableText(actual);
+  const expectedText = toComparableText(fixture.expected);
+
+  if (actualText === expectedText) {
+    return { name: fixture.name, status: "pass", durationMs, actual };
+  }
+
+  return {
+    name: fixture.name,
+    status: "fail",
+    durationMs,
+    actual,
+    expected: fixture.expected,
+    diff: diffLines(expectedText, actualText),
+  };
+}
+
+function elapsed(start: number): number {
+  return Math.round((performance.now() - start) * 100) / 100;
+}
+
+/**
+ * Normalize a value for comparison: strings are trimmed with unified newlines,
+ * other values are pretty-printed JSON with sorted keys.
+ */
+function toComparableText(value: unknown): string {
+  if (typeof value === "string") {
+    return value.replace(/\r\n/g, "\n").trim();
+  }
+  return JSON.stringify(sortKeys(value), null, 2);
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+/** Largest LCS table (lines x lines) for diffLines; bigger inputs get a positional diff */
+const MAX_DIFF_CELLS = 1_000_000;
+
+/**
+ * Line diff between expected and actual text.
+ * Lines prefixed with "-" are expected only, "+" actual only, " " common.
+ * The common prefix and suffix are kept as is; when the lines in between
+ * are too many for an LCS table, they are compared by position.
+ */
+export function diffLines(expected: string, actual: string): string {
+  const expectedLines = expected.split("\n");
+  const actualLines = actual.split("\n");
+
+  let prefix = 0;
+  while (
+    prefix < expectedLines.length &&
+    prefix < actualLines.length &&
+    expectedLines[prefix] === actualLines[prefix]
+  ) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < expectedLines.length - prefix &&
+    suffix < actualLines.length - prefix &&
+    expectedLines[expectedLines.length - 1 - suffix] === actualLines[actualLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = expectedLines.slice(prefix, expectedLines.length - suffix);
+  const b = actualLines.slice(prefix, actualLines.length - suffix);
+  const middle = (a.length + 1) * (b.length + 1) <= MAX_DIFF_CELLS
+    ? lcsDiff(a, b)
+    : positionalDiff(a, b);
+
+  return [
+    "--- expected",
+    "+++ actual",
+    ...expectedLines.slice(0, prefix).map((line) => ` ${line}`),
+    ...middle,
+    ...expectedLines.slice(expectedLines.length - suffix).map((line) => ` ${line}`),
+  ].join("\n");
+}
+
+function lcsDiff(a: string[], b: string[]): string[] {
+  // Longest common subsequence table
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push(` ${a[i]}`);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push(`-${a[i++]}`);
+    } else {
+      lines.push(`+${b[j++]}`);
+    }
+  }
+  while (i < a.length) lines.push(`-${a[i++]}`);
+  while (j < b.length) lines.push(`+${b[j++]}`);
+
+  return lines;
+}
+
+/** Line-by-line comparison without realignment, for inputs too large for lcsDiff */
+function positionalDiff(a: string[], b: string[]): string[] {
+  const lines: string[] = [];
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (i < a.length && i < b.length && a[i] === b[i]) {
+      lines.push(` ${a[i]}`);
+      continue;
+    }
+    if (i < a.length) lines.push(`-${a[i]}`);
+    if (i < b.length) lines.push(`+${b[i]}`);
+  }
+  return lines;
+}
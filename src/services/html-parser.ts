@@ -4,13 +4,32 @@ import {
   type Scope,
   type ScopeResolution,
   type SelectorScope,
+  type SelectorField,
   type FunctionScope,
   isSelectorScope,
   isFunctionScope,
 } from "./scope";
 import { runScopeFunction } from "./sandbox";
+import { findMainContent, type MainCandidate } from "./readability";
+import {
+  type HandlerSource,
+  type SiteHandler,
+  type SiteHandlerScope,
+  selectHandler,
+} from "./site-handlers";
+import { addGfmRules } from "./gfm";
+import { convertToJson, textToJson, type ContentTree } from "./blocks";
+import { truncateContent, type ContentLimits, type Truncation } from "./truncation";
+import { selectElements } from "./xpath";
+
+export type ContentFormat = "html" | "markdown" | "text" | "json";
+
+export const CONTENT_FORMATS: ContentFormat[] = ["html", "markdown", "text", "json"];
 
-export type ContentFormat = "html" | "markdown" | "text";
+/** "basic": CommonMark-style output; "gfm": adds tables, strikethrough and task lists */
+export type MarkdownFlavor = "basic" | "gfm";
+
+export const MARKDOWN_FLAVORS: MarkdownFlavor[] = ["basic", "gfm"];
 
 export interface OpenGraph {
   title: string | null;
@@ -110,8 +129,24 @@ function getOpenGraph(root: HTMLElement): OpenGraph {
 export function extractContent(
   html: string,
   mainOnly: boolean,
-  format: ContentFormat
+  format: ContentFormat,
+  url?: string,
+  options: ContentOptions = {}
 ): string {
+  return extractContentBlock(html, mainOnly, format, url, options).content;
+}
+
+/**
+ * extractContent() plus the main content candidate that was used
+ * (null: no candidate, fell back to the body; undefined: not mainOnly).
+ */
+function extractContentBlock(
+  html: string,
+  mainOnly: boolean,
+  format: ContentFormat,
+  url?: string,
+  options: ContentOptions = {}
+): { content: string; main?: MainCandidate | null } {
   const root = parse(html);
 
   // Always remove these elements
@@ -120,7 +155,8 @@ export function extractContent(
     root.querySelectorAll(tag).forEach((el) => el.remove());
   });
 
-  // Remove images with data: URIs
+  // Promote lazy-loaded sources, then remove images with data: URIs
+  normalizeImages(root);
   root.querySelectorAll("img").forEach((img) => {
     const src = img.getAttribute("src");
     if (src?.startsWith("data:")) {
@@ -128,6 +164,10 @@ export function extractContent(
     }
   });
 
+  if (!options.relativeUrls) {
+    resolveUrls(root, documentBaseUrl(root, url));
+  }
+
   // Elements to remove for main content only
   if (mainOnly) {
     const mainOnlyRemove = [
@@ -162,26 +202,24 @@ export function extractContent(
 
   // Get content container
   let content: HTMLElement | null = null;
+  let main: MainCandidate | null | undefined;
 
   if (mainOnly) {
-    const mainSelectors = [
-      "main",
-      '[role="main"]',
-      "article",
-      ".content",
-      ".post",
-      ".article",
-      ".entry",
-      "#content",
-      "#main",
-      ".main",
-    ];
-
-    for (const selector of mainSelectors) {
-      const el = root.querySelector(selector);
-      if (el && el.textContent && el.textContent.trim().length >= 100) {
-        content = el;
-        break;
+    main = null;
+    const found = findMainContent(root);
+    if (found) {
+      const { element, ...candidate } = found;
+      content = element;
+      main = candidate;
+    } else {
+      // No scored text blocks (e.g. only short lines): semantic containers
+      for (const selector of ["main", '[role="main"]', "article"]) {
+        const el = root.querySelector(selector);
+        if (el && el.textContent && el.textContent.trim().length >= 100) {
+          content = el;
+          main = { candidate: selector, score: 0, siblings: 0 };
+          break;
+        }
       }
     }
   }
@@ -194,15 +232,241 @@ export function extractContent(
 
   switch (format) {
     case "html":
-      return innerHTML;
+      return { content: innerHTML, main };
     case "markdown":
-      return convertToMarkdown(innerHTML);
+      return { content: convertToMarkdown(innerHTML, options.markdownFlavor), main };
     case "text":
-      return cleanText(content.textContent || "");
+      return { content: cleanText(content.textContent || ""), main };
+    case "json":
+      return { content: convertToJson(innerHTML), main };
+  }
+}
+
+/** Lazy-loading attributes holding the real src, in order of preference */
+const LAZY_SRC_ATTRIBUTES = ["data-src", "data-lazy-src", "data-original"];
+/** Lazy-loading attributes holding the real srcset */
+const LAZY_SRCSET_ATTRIBUTES = ["data-srcset", "data-lazy-srcset"];
+
+interface SrcsetCandidate {
+  url: string;
+  /** Width descriptor (`640w`) */
+  width?: number;
+  /** Pixel density descriptor (`2x`), 1 if none */
+  density: number;
+}
+
+/**
+ * Normalize images before extraction: promote lazy-loading attributes
+ * (data-src, data-srcset, ...) over placeholders and set each img's src to
+ * the best srcset candidate. A <picture> gets the best candidate of all its
+ * sources as its img's src (an img is added if it has none). alt and title
+ * are kept.
+ */
+function normalizeImages(root: HTMLElement): void {
+  for (const el of root.querySelectorAll("img, source")) {
+    const lazySrc = firstAttribute(el, LAZY_SRC_ATTRIBUTES);
+    if (lazySrc) el.setAttribute("src", lazySrc);
+    const lazySrcset = firstAttribute(el, LAZY_SRCSET_ATTRIBUTES);
+    if (lazySrcset) el.setAttribute("srcset", lazySrcset);
+  }
+
+  for (const img of root.querySelectorAll("img[srcset]")) {
+    const best = bestSrcsetCandidate(parseSrcset(img.getAttribute("srcset") ?? ""));
+    if (best) img.setAttribute("src", best.url);
+  }
+
+  // <picture>: the best candidate over all its sources
+  for (const picture of root.querySelectorAll("picture")) {
+    const img = picture.querySelector("img");
+    const candidates = [
+      ...picture.querySelectorAll("source[srcset]"),
+      ...(img ? [img] : []),
+    ].flatMap((el) => parseSrcset(el.getAttribute("srcset") ?? ""));
+    const best = bestSrcsetCandidate(candidates);
+
+    if (!best) continue;
+    if (img) {
+      img.setAttribute("src", best.url);
+    } else {
+      picture.appendChild(parse(`<img src="${best.url.replace(/"/g, "&quot;")}">`).querySelector("img")!);
+    }
+  }
+}
+
+function firstAttribute(el: HTMLElement, names: string[]): string | undefined {
+  for (const name of names) {
+    const value = el.getAttribute(name)?.trim();
+    if (value) return value;
+  }
+  return undefined;
+}
+
+/** Candidates of a srcset with valid descriptors; data: URLs are skipped */
+function parseSrcset(srcset: string): SrcsetCandidate[] {
+  return splitSrcset(srcset).flatMap(({ url, descriptors }) => {
+    const candidate = srcsetCandidate(url, descriptors);
+    return candidate && !url.startsWith("data:") ? [candidate] : [];
+  });
+}
+
+/**
+ * Split a srcset following the HTML parsing rules: a URL runs to the next
+ * whitespace (so it can contain commas), a trailing comma ends it, and its
+ * descriptors run to the next comma outside parentheses.
+ */
+function splitSrcset(srcset: string): { url: string; descriptors: string[] }[] {
+  const entries: { url: string; descriptors: string[] }[] = [];
+  let pos = 0;
+
+  while (pos < srcset.length) {
+    // Whitespace and commas between candidates
+    while (pos < srcset.length && /[\s,]/.test(srcset[pos])) pos++;
+    if (pos >= srcset.length) break;
+
+    const urlStart = pos;
+    while (pos < srcset.length && !/\s/.test(srcset[pos])) pos++;
+    let url = srcset.slice(urlStart, pos);
+
+    const descriptors: string[] = [];
+    if (url.endsWith(",")) {
+      url = url.replace(/,+$/, "");
+    } else {
+      let descriptor = "";
+      let inParens = false;
+      for (; pos < srcset.length; pos++) {
+        const char = srcset[pos];
+        if (inParens) {
+          if (char === ")") inParens = false;
+          descriptor += char;
+        } else if (char === ",") {
+          pos++;
+          break;
+        } else if (/\s/.test(char)) {
+          if (descriptor) descriptors.push(descriptor);
+          descriptor = "";
+        } else {
+          if (char === "(") inParens = true;
+          descriptor += char;
+        }
+      }
+      if (descriptor) descriptors.push(descriptor);
+    }
+
+    entries.push({ url, descriptors });
+  }
+  return entries;
+}
+
+/** A candidate from its descriptors (at most one `w` or `x`; `h` is ignored) */
+function srcsetCandidate(url: string, descriptors: string[]): SrcsetCandidate | undefined {
+  let width: number | undefined;
+  let density: number | undefined;
+  for (const descriptor of descriptors) {
+    const unit = descriptor.slice(-1);
+    const value = Number(descriptor.slice(0, -1));
+    if (descriptor.length < 2 || !Number.isFinite(value)) return undefined;
+    if (unit === "w" && width === undefined && density === undefined && Number.isInteger(value) && value > 0) {
+      width = value;
+    } else if (unit === "x" && width === undefined && density === undefined && value >= 0) {
+      density = value;
+    } else if (unit !== "h") {
+      return undefined;
+    }
+  }
+  if (width !== undefined) return { url, width, density: 1 };
+  return { url, density: density ?? 1 };
+}
+
+/** Widest candidate if any has a width descriptor, else the highest density */
+function bestSrcsetCandidate(candidates: SrcsetCandidate[]): SrcsetCandidate | undefined {
+  const withWidth = candidates.filter((candidate) => candidate.width !== undefined);
+  const pool = withWidth.length > 0 ? withWidth : candidates;
+  return pool.reduce<SrcsetCandidate | undefined>(
+    (best, candidate) =>
+      !best || (candidate.width ?? candidate.density) > (best.width ?? best.density) ? candidate : best,
+    undefined
+  );
+}
+
+/**
+ * Options for extracted content
+ */
+export interface ContentOptions {
+  /** Keep relative link/image URLs as they are (default: resolve to absolute) */
+  relativeUrls?: boolean;
+  /** Markdown flavor for the markdown format (default: basic) */
+  markdownFlavor?: MarkdownFlavor;
+}
+
+/** Attributes holding a URL, by element */
+const URL_ATTRIBUTES: Array<[selector: string, attribute: string]> = [
+  ["a[href]", "href"],
+  ["img[src]", "src"],
+  ["source[src]", "src"],
+  ["video[poster]", "poster"],
+];
+
+/** Attributes holding a srcset (comma-separated "url descriptor" candidates) */
+const SRCSET_ATTRIBUTES = ["img[srcset]", "source[srcset]"];
+
+/**
+ * Base URL for relative URLs in a document: <base href> (itself resolved
+ * against the page URL), else the page URL.
+ */
+function documentBaseUrl(root: HTMLElement, url?: string): string | undefined {
+  const baseHref = root.querySelector("base[href]")?.getAttribute("href")?.trim();
+  if (baseHref) {
+    try {
+      return new URL(baseHref, url).href;
+    } catch {
+      // Relative <base> without a page URL, or invalid
+    }
+  }
+  return url;
+}
+
+/**
+ * Rewrite relative URLs in links, images, sources and video posters to
+ * absolute ones. In-page anchors (#id) and unparseable values are left as-is.
+ */
+function resolveUrls(root: HTMLElement, baseUrl: string | undefined): void {
+  if (!baseUrl) return;
+
+  const resolve = (value: string): string => {
+    const trimmed = value.trim();
+    if (!trimmed || trimmed.startsWith("#")) return value;
+    try {
+      return new URL(trimmed, baseUrl).href;
+    } catch {
+      return value;
+    }
+  };
+
+  for (const [selector, attribute] of URL_ATTRIBUTES) {
+    for (const el of root.querySelectorAll(selector)) {
+      el.setAttribute(attribute, resolve(el.getAttribute(attribute) ?? ""));
+    }
+  }
+
+  for (const selector of SRCSET_ATTRIBUTES) {
+    for (const el of root.querySelectorAll(selector)) {
+      const srcset = splitSrcset(el.getAttribute("srcset") ?? "")
+        .map(({ url, descriptors }) => [resolve(url), ...descriptors].join(" "))
+        .join(", ");
+      el.setAttribute("srcset", srcset);
+    }
   }
 }
 
-function convertToMarkdown(html: string): string {
+/** Resolve URLs in an HTML fragment (function scope results) */
+function resolveFragmentUrls(fragment: string, baseUrl: string | undefined): string {
+  if (!baseUrl) return fragment;
+  const root = parse(fragment);
+  resolveUrls(root, baseUrl);
+  return root.toString();
+}
+
+function convertToMarkdown(html: string, flavor: MarkdownFlavor = "basic"): string {
   const turndownService = new TurndownService({
     headingStyle: "atx",
     codeBlockStyle: "fenced",
@@ -218,6 +482,10 @@ function convertToMarkdown(html: string): string {
     replacement: () => "",
   });
 
+  if (flavor === "gfm") {
+    addGfmRules(turndownService);
+  }
+
   return turndownService.turndown(html).trim();
 }
 
@@ -234,16 +502,25 @@ function cleanText(text: string): string {
 export interface ExtractionResult {
   content: string;
   scopeResolution: ScopeResolution;
+  /** Set when the content was cut to maxLength / maxTokens */
+  truncation?: Truncation;
 }
 
+/** Value of a selector field: a string, a block tree (json format) or null */
+export type SelectorFieldValue = string | ContentTree | null;
+
 /**
  * Extract content using selector-based scope.
- * Finds all elements matching include selectors, removes elements matching exclude selectors.
+ * Finds all elements matching include selectors (in document order), removes
+ * elements matching exclude selectors. Selectors are CSS or `xpath:` XPath. With `fields`, returns a JSON object
+ * of named values instead (the format applies per field).
  */
 export function extractBySelector(
   html: string,
   scope: SelectorScope,
-  format: ContentFormat
+  format: ContentFormat,
+  url?: string,
+  options: ContentOptions = {}
 ): string {
   const root = parse(html);
 
@@ -253,7 +530,8 @@ export function extractBySelector(
     root.querySelectorAll(tag).forEach((el) => el.remove());
   });
 
-  // Remove images with data: URIs
+  // Promote lazy-loaded sources, then remove images with data: URIs
+  normalizeImages(root);
   root.querySelectorAll("img").forEach((img) => {
     const src = img.getAttribute("src");
     if (src?.startsWith("data:")) {
@@ -261,19 +539,36 @@ export function extractBySelector(
     }
   });
 
-  // Find all elements matching include selectors (deduplicated)
+  if (!options.relativeUrls) {
+    resolveUrls(root, documentBaseUrl(root, url));
+  }
+
+  if (scope.fields) {
+    for (const excludeSelector of scope.exclude ?? []) {
+      selectElements(root, excludeSelector).forEach((e) => e.remove());
+    }
+    const values: Record<string, SelectorFieldValue | SelectorFieldValue[]> = {};
+    for (const [name, field] of Object.entries(scope.fields)) {
+      const matches = selectElements(root, field.selector).slice(0, field.multiple ? undefined : 1);
+      const fieldValues = matches.map((el) => selectorFieldValue(el, field, options));
+      values[name] = field.multiple ? fieldValues : fieldValues[0] ?? null;
+    }
+    return JSON.stringify(values, null, 2);
+  }
+
+  // Find all elements matching include selectors (deduplicated, in document order)
   const elementSet = new Set<HTMLElement>();
-  for (const selector of scope.include) {
-    const matches = root.querySelectorAll(selector);
+  for (const selector of scope.include ?? []) {
+    const matches = selectElements(root, selector);
     matches.forEach((el) => elementSet.add(el));
   }
-  const elements = Array.from(elementSet);
+  const elements = Array.from(elementSet).sort((a, b) => a.range[0] - b.range[0]);
 
   // Remove excluded elements from each matched element
   if (scope.exclude && scope.exclude.length > 0) {
     for (const el of elements) {
       for (const excludeSelector of scope.exclude) {
-        el.querySelectorAll(excludeSelector).forEach((e) => e.remove());
+        selectElements(el, excludeSelector).forEach((e) => e.remove());
       }
     }
   }
@@ -285,50 +580,95 @@ export function extractBySelector(
     case "html":
       return combinedHtml;
     case "markdown":
-      return convertToMarkdown(combinedHtml);
+      return convertToMarkdown(combinedHtml, options.markdownFlavor);
     case "text":
       return cleanText(elements.map((el) => el.textContent || "").join("\n"));
+    case "json":
+      return convertToJson(combinedHtml);
   }
 }
 
 /**
- * Extract content using a scope configuration.
- * This is the main entry point for scope-based extraction.
+ * Options for scope-based extraction
+ */
+export interface ExtractOptions extends ContentOptions, ContentLimits {
+  /** Site handler lookup, required for handler scopes and used by "auto" */
+  handlers?: HandlerSource;
+  /** Client whose handlers (plus shared ones) are visible; default: shared only */
+  client?: string | null;
+}
+
+/**
+ * Extract content using a scope configuration, truncated to maxLength /
+ * maxTokens if given. This is the main entry point for scope-based extraction.
  */
 export async function extractWithScope(
   html: string,
   scope: Scope,
   format: ContentFormat,
-  url?: string
+  url?: string,
+  options: ExtractOptions = {}
 ): Promise<ExtractionResult> {
-  // Handle "auto" scope - for now falls back to "main"
-  // TODO: Integrate with site handlers database when available
+  const extraction = await extractByScope(html, scope, format, url, options);
+  // Selector fields are a JSON object whatever the format
+  const scopeUsed = extraction.scopeResolution.scopeUsed;
+  const contentFormat = isSelectorScope(scopeUsed) && scopeUsed.fields ? "json" : format;
+  const { content, truncation } = truncateContent(extraction.content, contentFormat, options);
+  return truncation ? { ...extraction, content, truncation } : extraction;
+}
+
+/**
+ * Resolve the scope and extract (not truncated).
+ */
+async function extractByScope(
+  html: string,
+  scope: Scope,
+  format: ContentFormat,
+  url: string | undefined,
+  options: ExtractOptions
+): Promise<ExtractionResult> {
+  // Handle "auto" scope - use the best-matching site handler, else "main"
   if (scope === "auto") {
-    const content = extractContent(html, true, format);
+    const handler = await findHandlerForUrl(url, options.handlers, options.client ?? null);
+    if (handler) {
+      const content = await extractWithHandlerScope(html, handler.scope, format, url, options);
+      return {
+        content,
+        scopeResolution: {
+          scopeUsed: handler.scope,
+          scopeResolved: true,
+          handlerId: handler.id,
+        },
+      };
+    }
+
+    const { content, main } = extractContentBlock(html, true, format, url, options);
     return {
       content,
       scopeResolution: {
         scopeUsed: "main",
         scopeResolved: true,
+        main,
       },
     };
   }
 
   // Handle simple string scopes
   if (scope === "main" || scope === "full") {
-    const content = extractContent(html, scope === "main", format);
+    const { content, main } = extractContentBlock(html, scope === "main", format, url, options);
     return {
       content,
       scopeResolution: {
         scopeUsed: scope,
         scopeResolved: false,
+        ...(main !== undefined && { main }),
       },
     };
   }
 
-  // Handle selector scope
-  if (isSelectorScope(scope)) {
-    const content = extractBySelector(html, scope, format);
+  // Handle selector and function scopes
+  if (isSelectorScope(scope) || isFunctionScope(scope)) {
+    const content = await extractWithHandlerScope(html, scope, format, url, options);
     return {
       content,
       scopeResolution: {
@@ -338,30 +678,109 @@ export async function extractWithScope(
     };
   }
 
-  // Handle function scope
-  if (isFunctionScope(scope)) {
-    const content = await extractByFunction(html, scope, format, url || "");
+  // Handle handler scope
+  if (scope.type === "handler") {
+    if (!options.handlers) {
+      throw new HandlerScopeError(
+        `Handler scope "${scope.id}" requires the site handlers database`
+      );
+    }
+
+    const handler = await options.handlers.getHandlerById(scope.id, options.client ?? null);
+    if (!handler) {
+      throw new HandlerScopeError(`Site handler "${scope.id}" not found`);
+    }
+    if (!handler.enabled) {
+      throw new HandlerScopeError(`Site handler "${scope.id}" is disabled`);
+    }
+
+    const content = await extractWithHandlerScope(html, handler.scope, format, url, options);
     return {
       content,
       scopeResolution: {
-        scopeUsed: scope,
+        scopeUsed: handler.scope,
         scopeResolved: false,
+        handlerId: handler.id,
       },
     };
   }
 
-  // Handle handler scope
-  if (scope.type === "handler") {
-    // TODO: Integrate with site handlers database
-    throw new Error(
-      `Handler scope "${scope.id}" not yet implemented. Site handlers database required.`
-    );
-  }
-
   // Should never reach here if types are correct
   throw new Error(`Unknown scope type`);
 }
 
+/**
+ * Attribute or content of a selector field match. Content is text unless the
+ * field has a format; json gives the block tree as an object.
+ */
+function selectorFieldValue(
+  el: HTMLElement,
+  field: SelectorField,
+  options: ContentOptions
+): SelectorFieldValue {
+  if (field.attribute) {
+    return el.getAttribute(field.attribute) ?? null;
+  }
+  switch (field.format ?? "text") {
+    case "html":
+      return el.innerHTML.trim();
+    case "markdown":
+      return convertToMarkdown(el.innerHTML, options.markdownFlavor);
+    case "text":
+      return cleanText(el.textContent || "");
+    case "json":
+      return JSON.parse(convertToJson(el.innerHTML)) as ContentTree;
+  }
+}
+
+/**
+ * Extract content with a selector or function scope.
+ */
+async function extractWithHandlerScope(
+  html: string,
+  scope: SiteHandlerScope,
+  format: ContentFormat,
+  url?: string,
+  options: ContentOptions = {}
+): Promise<string> {
+  if (isFunctionScope(scope)) {
+    return extractByFunction(html, scope, format, url || "", options);
+  }
+  return extractBySelector(html, scope, format, url, options);
+}
+
+/**
+ * Find the best-matching site handler for a URL.
+ * Returns null if no URL or handler source is available.
+ */
+async function findHandlerForUrl(
+  url: string | undefined,
+  handlers: HandlerSource | undefined,
+  client: string | null
+): Promise<SiteHandler | null> {
+  if (!url || !handlers) {
+    return null;
+  }
+
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname;
+  } catch {
+    return null;
+  }
+
+  const candidates = await handlers.getHandlersForHostname(hostname, client);
+  return selectHandler(candidates, url);
+}
+
+/** Custom error class for handler scope resolution errors */
+export class HandlerScopeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HandlerScopeError";
+  }
+}
+
 /** Custom error class for function scope validation/execution errors */
 export class FunctionScopeError extends Error {
   constructor(message: string) {
@@ -378,7 +797,8 @@ async function extractByFunction(
   html: string,
   scope: FunctionScope,
   format: ContentFormat,
-  url: string
+  url: string,
+  options: ContentOptions = {}
 ): Promise<string> {
   const result = await runScopeFunction(scope.code, html, url, {
     timeout: scope.timeout ?? 5000,
@@ -402,15 +822,25 @@ async function extractByFunction(
 
   // If the content looks like HTML and format is markdown/text, convert it
   if (content.includes("<") && content.includes(">")) {
+    if (!options.relativeUrls) {
+      content = resolveFragmentUrls(content, documentBaseUrl(parse(html), url || undefined));
+    }
     switch (format) {
       case "html":
         return content;
       case "markdown":
-        return convertToMarkdown(content);
+        return convertToMarkdown(content, options.markdownFlavor);
       case "text":
         return cleanText(content.replace(/<[^>]+>/g, " "));
+      case "json":
+        return convertToJson(content);
     }
   }
 
+  // Plain text still gets the block tree; objects are already structured
+  if (format === "json" && (typeof result.data !== "object" || result.data === null)) {
+    return textToJson(content);
+  }
+
   return content;
 }
@@ -1,22 +1,152 @@
-export { WebFetcher, type FetchResult } from "./web-fetcher";
+export {
+  WebFetcher,
+  FetchError,
+  validateWebFetchOptions,
+  redactFetchOptions,
+  stripRedactedOptions,
+  parseCookieString,
+  parseHeaderStrings,
+  parseAuthString,
+  DEFAULT_MAX_REDIRECTS,
+  DEFAULT_TIMEOUT,
+  DEFAULT_CONNECT_TIMEOUT,
+  DEFAULT_MAX_BODY_SIZE,
+  DEFAULT_RETRIES,
+  DEFAULT_RETRY_DELAY,
+  DEFAULT_RETRY_ON,
+  DEFAULT_USER_AGENT,
+  type FetchResult,
+  type FetchErrorCode,
+  type RedirectHop,
+  type RetryableError,
+  type WebFetchOptions,
+  type BasicAuth,
+  type WebFetcherConfig,
+} from "./web-fetcher";
+export {
+  loadConfig,
+  validateConfig,
+  resolveProfile,
+  applyProfile,
+  ProfileError,
+  DEFAULT_CONFIG_FILE,
+  type FetchProfile,
+  type WebContentConfig,
+} from "./profiles";
+export {
+  detectCharset,
+  decodeBody,
+  parseCharsetParam,
+  type CharsetSource,
+  type DecodedBody,
+} from "./charset";
+export {
+  proxyForUrl,
+  checkProxyOverride,
+  matchNoProxy,
+  parseNoProxy,
+  redactProxyUrl,
+  validateProxyUrl,
+} from "./proxy";
+export {
+  loadUrlPolicy,
+  checkUrl,
+  UrlPolicyError,
+  type UrlPolicy,
+  type UrlPolicyErrorCode,
+} from "./url-policy";
+export {
+  parseRobotsTxt,
+  evaluateRobots,
+  matchRobotsPath,
+  robotsProductToken,
+  RobotsError,
+  ROBOTS_TTL,
+  type CrawlSlot,
+  type RobotsCheck,
+  type RobotsSource,
+  type RobotsTxtData,
+} from "./robots";
+export {
+  OutboundScheduler,
+  getSharedScheduler,
+  loadSchedulerLimits,
+  DEFAULT_SCHEDULER_LIMITS,
+  type SchedulerLimits,
+  type SchedulerSlot,
+} from "./scheduler";
+export {
+  refreshPage,
+  buildRefreshOptions,
+  type RefreshOptions,
+  type RefreshResult,
+} from "./refresh";
 export {
   parseHtmlMeta,
   extractContent,
   extractBySelector,
   extractWithScope,
   FunctionScopeError,
+  HandlerScopeError,
+  CONTENT_FORMATS,
+  MARKDOWN_FLAVORS,
   type ContentFormat,
+  type MarkdownFlavor,
   type PageMeta,
   type OpenGraph,
   type HreflangLink,
   type ExtractionResult,
+  type SelectorFieldValue,
+  type ExtractOptions,
 } from "./html-parser";
+export { findMainContent, type MainCandidate, type MainContent } from "./readability";
+export { convertToJson, type ContentTree, type ContentBlock } from "./blocks";
+export {
+  compileXPath,
+  evaluateXPath,
+  selectElements,
+  validateSelector,
+  isXPath,
+  XPathError,
+  XPATH_PREFIX,
+  type XPathAdapter,
+  type CompiledXPath,
+} from "./xpath";
+export {
+  truncateContent,
+  validateContentLimits,
+  type ContentLimits,
+  type Truncation,
+} from "./truncation";
+export {
+  chunkContent,
+  validateChunkOptions,
+  CHUNK_FORMATS,
+  DEFAULT_CHUNK_OPTIONS,
+  type ChunkOptions,
+  type ChunkUnit,
+  type ContentChunk,
+} from "./chunker";
+export {
+  parseDocument,
+  extractDocument,
+  detectDocumentType,
+  DocumentError,
+  type DocumentType,
+  type DocumentErrorCode,
+  type ParsedDocument,
+} from "./documents";
 export {
   DatabaseService,
   generatePageId,
+  generateHandlerId,
+  computeOptionsHash,
   type PageData,
+  type GetPageOptions,
+  type HashableOptions,
   type StoredPage,
   type StoreOptions,
+  type HandlerListFilter,
 } from "./database";
 export {
   parseScopeArg,
@@ -29,10 +159,34 @@ export {
   isHandlerScope,
   type Scope,
   type SelectorScope,
+  type SelectorField,
   type FunctionScope,
   type HandlerScope,
   type ScopeResolution,
 } from "./scope";
+export {
+  matchHostname,
+  matchPath,
+  scoreHandlerMatch,
+  selectHandler,
+  validateSiteHandler,
+  type SiteHandler,
+  type SiteHandlerData,
+  type SiteHandlerScope,
+  type HandlerSource,
+} from "./site-handlers";
+export {
+  validateHandlerFixtures,
+  loadHandlerFixtures,
+  runHandlerTest,
+  diffLines,
+  MAX_HANDLER_FIXTURES,
+  type HandlerFixtureInput,
+  type HandlerFixture,
+  type FixtureResult,
+  type FixtureStatus,
+  type HandlerTestReport,
+} from "./handler-test";
 export {
   runInSandbox,
   runScopeFunction,
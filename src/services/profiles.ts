@@ -0,0 +1,241 @@
+/**
+ * Fetch Profiles
+ * Named sets of fetch options (headers, timeouts, default scope, ...) loaded
+ * from a config file and merged into requests by name or by hostname.
+ */
+
+import { CONTENT_FORMATS, type ContentFormat } from "./html-parser";
+import { type Scope, validateScope } from "./scope";
+import { matchHostname } from "./site-handlers";
+import {
+  validateWebFetchOptions,
+  parseCookieString,
+  type WebFetchOptions,
+} from "./web-fetcher";
+
+export const DEFAULT_CONFIG_FILE = "webcontent.config.json";
+
+export interface FetchProfile {
+  name: string;
+  /** Hostname patterns for automatic selection: "example.com" or "*.example.com" */
+  hostnames: string[];
+  scope?: Scope;
+  format?: ContentFormat;
+  fetch: WebFetchOptions;
+}
+
+export interface WebContentConfig {
+  profiles: Record<string, FetchProfile>;
+}
+
+/** Custom error class for unknown profiles and invalid config files */
+export class ProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProfileError";
+  }
+}
+
+const PROFILE_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+const PROFILE_KEYS = ["hostnames", "scope", "format"];
+
+/**
+ * Validate a parsed config file.
+ *
+ * ```json
+ * { "profiles": { "intranet": { "hostnames": ["*.corp.example"], "auth": "...", "timeout": 5000 } } }
+ * ```
+ */
+export function validateConfig(obj: unknown): WebContentConfig {
+  if (typeof obj !== "object" || obj === null || Array.isArray(obj)) {
+    throw new ProfileError("Config must be a JSON object");
+  }
+
+  const profilesInput = (obj as Record<string, unknown>).profiles ?? {};
+  if (typeof profilesInput !== "object" || profilesInput === null || Array.isArray(profilesInput)) {
+    throw new ProfileError("Config 'profiles' must be an object");
+  }
+
+  const profiles: Record<string, FetchProfile> = {};
+  for (const [name, value] of Object.entries(profilesInput)) {
+    try {
+      profiles[name] = validateProfile(name, value);
+    } catch (error) {
+      throw new ProfileError(
+        `Profile "${name}": ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  return { profiles };
+}
+
+function validateProfile(name: string, value: unknown): FetchProfile {
+  if (!PROFILE_NAME_PATTERN.test(name)) {
+    throw new Error("name must be 1-64 characters: letters, digits, '_' or '-'");
+  }
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error("must be an object");
+  }
+
+  const input = value as Record<string, unknown>;
+  const profile: FetchProfile = { name, hostnames: [], fetch: {} };
+
+  if (input.hostnames !== undefined) {
+    if (!Array.isArray(input.hostnames) || input.hostnames.some((h) => typeof h !== "string")) {
+      throw new Error("'hostnames' must be an array of hostname patterns");
+    }
+    profile.hostnames = input.hostnames.map((h: string) => h.toLowerCase());
+  }
+
+  if (input.scope !== undefined) {
+    profile.scope = validateScope(input.scope);
+  }
+
+  if (input.format !== undefined) {
+    if (!CONTENT_FORMATS.includes(input.format as ContentFormat)) {
+      throw new Error('\'format\' must be "html", "markdown", "text", or "json"');
+    }
+    profile.format = input.format as ContentFormat;
+  }
+
+  const fetchInput = Object.fromEntries(
+    Object.entries(input).filter(([key]) => !PROFILE_KEYS.includes(key))
+  );
+  profile.fetch = validateWebFetchOptions(fetchInput);
+
+  return profile;
+}
+
+let cachedConfig: { path: string; config: Promise<WebContentConfig> } | null = null;
+
+/**
+ * Load the config file from `WEBCONTENT_CONFIG` or ./webcontent.config.json.
+ * A missing file yields an empty config. The result is cached per path.
+ */
+export function loadConfig(path = process.env.WEBCONTENT_CONFIG || DEFAULT_CONFIG_FILE): Promise<WebContentConfig> {
+  if (cachedConfig?.path !== path) {
+    cachedConfig = { path, config: readConfigFile(path) };
+    // Do not cache failures, so a fixed file is picked up on the next request
+    cachedConfig.config.catch(() => {
+      cachedConfig = null;
+    });
+  }
+  return cachedConfig.config;
+}
+
+async function readConfigFile(path: string): Promise<WebContentConfig> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) {
+    return { profiles: {} };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = await file.json();
+  } catch {
+    throw new ProfileError(`Config file ${path} must contain valid JSON`);
+  }
+  return validateConfig(parsed);
+}
+
+/** Fetch options that carry credentials for the profile's hosts */
+const CREDENTIAL_KEYS = ["auth", "cookies", "headers"] as const;
+
+/**
+ * Pick the profile for a request: the named profile if given (error if unknown),
+ * otherwise the profile with the most specific matching hostname pattern.
+ * A named profile used for a URL outside its hostnames comes without its
+ * credentials (auth, cookies, headers), so they only go to the hosts they are for.
+ */
+export function resolveProfile(
+  config: WebContentConfig,
+  name: string | undefined,
+  url: string
+): FetchProfile | null {
+  const hostname = urlHostname(url);
+
+  if (name) {
+    const profile = config.profiles[name];
+    if (!profile) {
+      throw new ProfileError(`Unknown profile: ${name}`);
+    }
+    const matches = hostname !== null && profile.hostnames.some((pattern) => matchHostname(pattern, hostname));
+    return matches ? profile : withoutCredentials(profile);
+  }
+
+  if (hostname === null) {
+    return null;
+  }
+
+  let best: FetchProfile | null = null;
+  let bestScore = -1;
+  for (const profile of Object.values(config.profiles)) {
+    for (const pattern of profile.hostnames) {
+      if (!matchHostname(pattern, hostname)) continue;
+      // Exact hostnames beat wildcards, longer wildcards beat shorter ones
+      const score = pattern.startsWith("*.") ? pattern.length : Number.MAX_SAFE_INTEGER;
+      if (score > bestScore) {
+        best = profile;
+        bestScore = score;
+      }
+    }
+  }
+  return best;
+}
+
+function urlHostname(url: string): string | null {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return null;
+  }
+}
+
+function withoutCredentials(profile: FetchProfile): FetchProfile {
+  if (!CREDENTIAL_KEYS.some((key) => profile.fetch[key] !== undefined)) {
+    return profile;
+  }
+  const fetch = { ...profile.fetch };
+  for (const key of CREDENTIAL_KEYS) {
+    delete fetch[key];
+  }
+  return { ...profile, fetch };
+}
+
+/**
+ * Merge a profile into raw request options. Values given in the request win;
+ * `headers` and `cookies` are merged per key.
+ */
+export function applyProfile(
+  profile: FetchProfile,
+  options: Record<string, unknown>
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...profile.fetch };
+
+  if (profile.scope !== undefined) merged.scope = profile.scope;
+  if (profile.format !== undefined) merged.format = profile.format;
+
+  for (const [key, value] of Object.entries(options)) {
+    if (value !== undefined) merged[key] = value;
+  }
+
+  if (profile.fetch.headers && isObject(options.headers)) {
+    merged.headers = { ...profile.fetch.headers, ...options.headers };
+  }
+
+  if (profile.fetch.cookies && options.cookies !== undefined) {
+    const cookies = typeof options.cookies === "string"
+      ? parseCookieString(options.cookies)
+      : options.cookies;
+    if (isObject(cookies)) {
+      merged.cookies = { ...profile.fetch.cookies, ...cookies };
+    }
+  }
+
+  return merged;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
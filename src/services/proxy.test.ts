@@ -0,0 +1,27 @@
+import { describe, expect, test } from "bun:test";
+import { checkProxyOverride } from "./proxy";
+
+const PROXIED = { WEBCONTENT_PROXY: "http://proxy.internal:3128" };
+
+describe("checkProxyOverride", () => {
+  test.each([
+    ["proxy", { proxy: false }],
+    ["proxy", { proxy: "http://other.example:8080" }],
+    ["noProxy", { noProxy: "*" }],
+  ])("'%s' is rejected when a proxy is configured", (key, options) => {
+    expect(() => checkProxyOverride(options, PROXIED)).toThrow(`'${key}' is not allowed`);
+  });
+
+  test("WEBCONTENT_ALLOW_PROXY_OVERRIDE=true allows overrides", () => {
+    const env = { ...PROXIED, WEBCONTENT_ALLOW_PROXY_OVERRIDE: "true" };
+    expect(() => checkProxyOverride({ proxy: false, noProxy: "*" }, env)).not.toThrow();
+  });
+
+  test("overrides are allowed without a configured proxy", () => {
+    expect(() => checkProxyOverride({ proxy: false }, {})).not.toThrow();
+  });
+
+  test("requests without proxy options pass", () => {
+    expect(() => checkProxyOverride({}, PROXIED)).not.toThrow();
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Main Content Scoring
+ * Readability-style detection of the main content block for the "main"
+ * scope. Text blocks add a score to their ancestors; candidates are weighted
+ * by class/id hints and link density, and qualifying siblings of the best
+ * candidate are added to it.
+ */
+
+import { parse, HTMLElement } from "node-html-parser";
+
+/** The winning main content candidate, reported in debug output */
+export interface MainCandidate {
+  /** Tag, id and classes of the winner, e.g. `div#content.post-body` */
+  candidate: string;
+  /** Final score (after the link density penalty) */
+  score: number;
+  /** Sibling blocks added next to the winner */
+  siblings: number;
+}
+
+export interface MainContent extends MainCandidate {
+  /** The winner, or a wrapper around it and its qualifying siblings */
+  element: HTMLElement;
+}
+
+const POSITIVE_HINTS =
+  /article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story|prose/i;
+const NEGATIVE_HINTS =
+  /-ad-|^ad-|banner|breadcrumb|combx|comment|com-|contact|cookie|foot|gdpr|hidden|masthead|media|menu|meta|nav|newsletter|outbrain|promo|related|share|shoutbox|sidebar|skyscraper|social|sponsor|shopping|subscribe|tags|tool|widget/i;
+
+/** Elements whose own text is scored */
+const TEXT_BLOCKS = "p, pre, td, blockquote, div";
+
+/** Block-level children that make a div a container rather than a text block */
+const BLOCK_TAGS = new Set([
+  "ADDRESS", "ARTICLE", "ASIDE", "BLOCKQUOTE", "DIV", "DL", "FIELDSET", "FIGURE",
+  "FOOTER", "FORM", "H1", "H2", "H3", "H4", "H5", "H6", "HEADER", "HR", "MAIN",
+  "NAV", "OL", "P", "PRE", "SECTION", "TABLE", "UL",
+]);
+
+/** Text blocks shorter than this are not scored */
+const MIN_BLOCK_TEXT = 25;
+/** A winner with less text falls back to the body */
+const MIN_CONTENT_TEXT = 100;
+/** Ancestors that receive a share of a text block's score */
+const ANCESTOR_LEVELS = 5;
+
+/**
+ * Find the main content of a document (boilerplate already removed).
+ * Returns null if no candidate has enough text.
+ */
+export function findMainContent(root: HTMLElement): MainContent | null {
+  const scores = new Map<HTMLElement, number>();
+
+  for (const block of root.querySelectorAll(TEXT_BLOCKS)) {
+    if (block.tagName === "DIV" && hasBlockChildren(block)) continue;
+
+    const text = normalizedText(block);
+    if (text.length < MIN_BLOCK_TEXT) continue;
+
+    // 1 per block, 1 per comma, 1 per 100 characters (up to 3)
+    const blockScore =
+      1 + (text.match(/[,，、]/g)?.length ?? 0) + Math.min(Math.floor(text.length / 100), 3);
+
+    // Parent gets the full score, grandparent half, then score / (level * 3)
+    let ancestor: HTMLElement | null = block.parentNode;
+    for (let level = 0; ancestor?.tagName && level < ANCESTOR_LEVELS; level++) {
+      const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+      scores.set(ancestor, (scores.get(ancestor) ?? initialScore(ancestor)) + blockScore / divider);
+      ancestor = ancestor.parentNode;
+    }
+  }
+
+  // Penalize link-heavy candidates (menus, link lists)
+  const finalScores = new Map<HTMLElement, number>();
+  let top: HTMLElement | null = null;
+  let topScore = -Infinity;
+  for (const [element, score] of scores) {
+    const finalScore = score * (1 - linkDensity(element));
+    finalScores.set(element, finalScore);
+    if (finalScore > topScore) {
+      top = element;
+      topScore = finalScore;
+    }
+  }
+
+  if (!top || normalizedText(top).length < MIN_CONTENT_TEXT) {
+    return null;
+  }
+
+  // A wrapper around only the winner holds the same content
+  while (top.parentNode?.tagName && top.parentNode.tagName !== "BODY" && elementChildren(top.parentNode).length === 1) {
+    top = top.parentNode;
+  }
+
+  const siblings = qualifyingSiblings(top, topScore, finalScores);
+  const element = siblings.length > 1
+    ? parse(`<div>${siblings.map((sibling) => sibling.outerHTML).join("\n")}</div>`).querySelector("div")!
+    : top;
+
+  return {
+    element,
+    candidate: describeElement(top),
+    score: Math.round(topScore * 10) / 10,
+    siblings: Math.max(0, siblings.length - 1),
+  };
+}
+
+/**
+ * The winner and the siblings that belong with it (in document order):
+ * scored siblings above a threshold, and paragraphs with little link text.
+ */
+function qualifyingSiblings(
+  top: HTMLElement,
+  topScore: number,
+  scores: Map<HTMLElement, number>
+): HTMLElement[] {
+  const parent = top.parentNode;
+  if (!parent?.tagName || top.tagName === "BODY") {
+    return [top];
+  }
+
+  const threshold = Math.max(10, topScore * 0.2);
+
+  return elementChildren(parent).filter((sibling) => {
+    if (sibling === top) return true;
+
+    // Siblings styled like the winner are likely more of the same content
+    const bonus = sibling.classNames && sibling.classNames === top.classNames ? topScore * 0.2 : 0;
+    const score = scores.get(sibling);
+    if (score !== undefined && score + bonus >= threshold) return true;
+
+    if (sibling.tagName === "P") {
+      const text = normalizedText(sibling);
+      const density = linkDensity(sibling);
+      if (text.length > 80) return density < 0.25;
+      return text.length > 0 && density === 0 && /\.( |$)/.test(text);
+    }
+    return false;
+  });
+}
+
+/** Tag bonus plus class/id hints */
+function initialScore(element: HTMLElement): number {
+  let score = 0;
+  switch (element.tagName) {
+    case "ARTICLE":
+    case "MAIN":
+      score += 10;
+      break;
+    case "DIV":
+      score += 5;
+      break;
+    case "PRE":
+    case "TD":
+    case "BLOCKQUOTE":
+      score += 3;
+      break;
+    case "ADDRESS":
+    case "OL":
+    case "UL":
+    case "DL":
+    case "DD":
+    case "DT":
+    case "LI":
+    case "FORM":
+      score -= 3;
+      break;
+    case "H1":
+    case "H2":
+    case "H3":
+    case "H4":
+    case "H5":
+    case "H6":
+    case "TH":
+      score -= 5;
+      break;
+  }
+  if (element.getAttribute("role") === "main") score += 10;
+  return score + hintWeight(element.classNames) + hintWeight(element.id);
+}
+
+function hintWeight(value: string | undefined): number {
+  if (!value) return 0;
+  let weight = 0;
+  if (NEGATIVE_HINTS.test(value)) weight -= 25;
+  if (POSITIVE_HINTS.test(value)) weight += 25;
+  return weight;
+}
+
+/** Share of the element's text that is link text */
+function linkDensity(element: HTMLElement): number {
+  const length = normalizedText(element).length;
+  if (length === 0) return 0;
+  const linkLength = element
+    .querySelectorAll("a")
+    .reduce((sum, link) => sum + normalizedText(link).length, 0);
+  return Math.min(1, linkLength / length);
+}
+
+function hasBlockChildren(element: HTMLElement): boolean {
+  return elementChildren(element).some((child) => BLOCK_TAGS.has(child.tagName));
+}
+
+function elementChildren(element: HTMLElement): HTMLElement[] {
+  return element.childNodes.filter((node): node is HTMLElement => node instanceof HTMLElement);
+}
+
+function normalizedText(element: HTMLElement): string {
+  return element.textContent.replace(/\s+/g, " ").trim();
+}
+
+function describeElement(element: HTMLElement): string {
+  const id = element.id ? `#${element.id}` : "";
+  const classes = element.classNames
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 3)
+    .map((name) => `.${name}`)
+    .join("");
+  return `${element.tagName.toLowerCase()}${id}${classes}`;
+}
@@ -0,0 +1,133 @@
+/**
+ * Page Refresh
+ * Re-fetches a stored page with the options it was stored with. Pages with
+ * an ETag or Last-Modified are revalidated with a conditional request: a 304
+ * only extends the record's expiration, anything else is re-extracted.
+ */
+
+import { runPlugins, parseDataParam, type DataRequest } from "../plugins";
+import type { DatabaseService, PageData, StoredPage } from "./database";
+import { parseDocument, extractDocument } from "./documents";
+import { chunkContent, type ChunkOptions } from "./chunker";
+import { parseHtmlMeta, type ContentFormat } from "./html-parser";
+import { loadConfig, resolveProfile, applyProfile } from "./profiles";
+import { isHandlerScope, type Scope } from "./scope";
+import {
+  validateWebFetchOptions,
+  stripRedactedOptions,
+  type WebFetcher,
+  type FetchResult,
+  type WebFetchOptions,
+} from "./web-fetcher";
+
+export interface RefreshOptions {
+  fetcher: WebFetcher;
+  /** Fetch options from buildRefreshOptions() */
+  fetchOptions: WebFetchOptions;
+  /** New TTL in seconds (default: the page's original TTL) */
+  ttl?: number;
+}
+
+export interface RefreshResult {
+  page: StoredPage;
+  /** true: 304 Not Modified, only deleteAt was extended; false: re-fetched and re-extracted */
+  revalidated: boolean;
+  fetch: FetchResult;
+}
+
+/** Stored option keys that are not fetch options */
+const NON_FETCH_KEYS = ["scope", "scopeUsed", "scopeResolved", "format", "relativeUrls", "markdownFlavor", "chunk", "maxLength", "maxTokens", "profile", "data", "store"];
+
+/**
+ * Build the fetch options for a refresh: stored options without redacted
+ * values, the stored profile (which restores its secrets), then overrides
+ * (e.g. credentials that were redacted). Adds the conditional request headers.
+ * Throws on invalid overrides or an unknown profile.
+ */
+export async function buildRefreshOptions(
+  page: StoredPage,
+  overrides: Record<string, unknown> = {}
+): Promise<WebFetchOptions> {
+  const stored = Object.fromEntries(
+    Object.entries(stripRedactedOptions(page.options || {})).filter(
+      ([key]) => !NON_FETCH_KEYS.includes(key)
+    )
+  );
+  const merged = { ...stored, ...overrides };
+
+  const profile = resolveProfile(await loadConfig(), page.options?.profile, page.url);
+  const options = validateWebFetchOptions(profile ? applyProfile(profile, merged) : merged);
+
+  // Conditional request with the stored validators
+  const conditional: Record<string, string> = {};
+  if (page.etag) conditional["If-None-Match"] = page.etag;
+  if (page.lastModified) conditional["If-Modified-Since"] = page.lastModified;
+  if (Object.keys(conditional).length > 0) {
+    options.headers = { ...options.headers, ...conditional };
+  }
+
+  return options;
+}
+
+/**
+ * Refresh a stored page in place (same ID).
+ */
+export async function refreshPage(
+  db: DatabaseService,
+  page: StoredPage,
+  options: RefreshOptions
+): Promise<RefreshResult> {
+  const result = await options.fetcher.fetch(page.url, options.fetchOptions);
+
+  const timestamp = Date.now();
+  const ttl = options.ttl ?? Math.max(1, Math.round((page.deleteAt - page.timestamp) / 1000));
+  const deleteAt = timestamp + ttl * 1000;
+
+  if (result.status === 304) {
+    await db.extendPage(page.id, deleteAt);
+    return { page: { ...page, deleteAt }, revalidated: true, fetch: result };
+  }
+
+  const scope: Scope = page.options?.scope ?? "main";
+  const format: ContentFormat = page.options?.format ?? "markdown";
+  const document = await parseDocument(result);
+  const meta = parseHtmlMeta(document.html);
+
+  const extraction = await extractDocument(document, scope, format, result.url, {
+    client: page.client,
+    relativeUrls: page.options?.relativeUrls,
+    markdownFlavor: page.options?.markdownFlavor,
+    maxLength: page.options?.maxLength,
+    maxTokens: page.options?.maxTokens,
+    ...((scope === "auto" || isHandlerScope(scope)) && { handlers: db }),
+  });
+
+  // Older records did not store the data request; re-run the plugins they have results for
+  const dataRequest: DataRequest | null = page.options?.data
+    ?? parseDataParam(Object.keys(page.data || {}).join(","));
+
+  const chunkOptions: ChunkOptions | undefined = page.options?.chunk;
+
+  const updated: PageData = {
+    ...page,
+    title: meta.title || null,
+    status: result.status,
+    content: extraction.content || null,
+    chunks: chunkOptions ? chunkContent(extraction.content, format, chunkOptions, result.url) : null,
+    meta,
+    data: dataRequest ? await runPlugins(document.html, dataRequest) : {},
+    options: {
+      ...page.options,
+      scopeUsed: extraction.scopeResolution?.scopeUsed,
+      scopeResolved: extraction.scopeResolution?.scopeResolved,
+    },
+    timestamp,
+    deleteAt,
+    etag: result.headers.etag ?? null,
+    lastModified: result.headers["last-modified"] ?? null,
+    // Only pages stored with their body keep one
+    body: page.body ? document.html : null,
+  };
+
+  return { page: await db.updatePage(page.id, updated), revalidated: false, fetch: result };
+}
@@ -0,0 +1,74 @@
+import { describe, expect, test } from "bun:test";
+import { evaluateRobots, reserveCrawlSlot, robotsProductToken, type RobotsTxtData } from "./robots";
+import { DEFAULT_USER_AGENT } from "./web-fetcher";
+
+function robots(body: string): RobotsTxtData {
+  return { origin: "https://example.com", status: 200, body, fetchedAt: 0, deleteAt: Infinity };
+}
+
+function allowed(body: string, userAgent = DEFAULT_USER_AGENT, url = "https://example.com/private"): boolean {
+  return evaluateRobots(robots(body), userAgent, url).allowed;
+}
+
+describe("robotsProductToken", () => {
+  test("the product of a compatible comment", () => {
+    expect(robotsProductToken(DEFAULT_USER_AGENT)).toBe("webcontent");
+  });
+
+  test("the first product otherwise", () => {
+    expect(robotsProductToken("MyBot/1.0 (+https://example.com/bot)")).toBe("mybot");
+    expect(robotsProductToken("")).toBe("");
+  });
+});
+
+describe("group selection", () => {
+  test.each(["Mozilla", "bot", "web", "compatible", "Content"])(
+    "User-agent: %s does not match the default User-Agent",
+    (token) => {
+      expect(allowed(`User-agent: ${token}\nDisallow: /\n\nUser-agent: *\nAllow: /`)).toBe(true);
+    }
+  );
+
+  test("the product token matches case-insensitively", () => {
+    expect(allowed("User-agent: WEBCONTENT\nDisallow: /private\n\nUser-agent: *\nAllow: /")).toBe(false);
+  });
+
+  test("the product group replaces the * group", () => {
+    const body = "User-agent: *\nDisallow: /\n\nUser-agent: webcontent\nAllow: /";
+    expect(allowed(body)).toBe(true);
+    expect(allowed(body, "OtherBot/2.0")).toBe(false);
+  });
+
+  test("groups for the product token are merged", () => {
+    const body = "User-agent: webcontent\nDisallow: /a\n\nUser-agent: webcontent\nCrawl-delay: 2\nDisallow: /private";
+    const check = evaluateRobots(robots(body), DEFAULT_USER_AGENT, "https://example.com/private");
+    expect(check.allowed).toBe(false);
+    expect(check.crawlDelay).toBe(2000);
+  });
+});
+
+describe("reserveCrawlSlot", () => {
+  test("reservations are spaced by the delay", () => {
+    const origin = "https://spaced.example";
+    expect(reserveCrawlSlot(origin, 5000).wait).toBe(0);
+    expect(reserveCrawlSlot(origin, 5000).wait).toBeGreaterThan(4900);
+  });
+
+  test("a cancelled reservation does not delay later requests", () => {
+    const origin = "https://cancelled.example";
+    reserveCrawlSlot(origin, 5000);
+    const second = reserveCrawlSlot(origin, 5000);
+    second.cancel();
+
+    // Back to the first reservation: one delay, not two
+    const third = reserveCrawlSlot(origin, 5000);
+    expect(third.wait).toBeGreaterThan(4900);
+    expect(third.wait).toBeLessThanOrEqual(5000);
+  });
+
+  test("cancelling the only reservation frees the origin", () => {
+    const origin = "https://free.example";
+    reserveCrawlSlot(origin, 5000).cancel();
+    expect(reserveCrawlSlot(origin, 5000).wait).toBe(0);
+  });
+});
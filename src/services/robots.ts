@@ -0,0 +1,308 @@
+/**
+ * robots.txt Compliance
+ * Parses robots.txt (RFC 9309 plus Crawl-delay), caches it per origin in
+ * memory and through a RobotsSource (DatabaseService), and evaluates URLs.
+ */
+
+/** A fetched robots.txt; status 0 means the file could not be fetched */
+export interface RobotsTxtData {
+  origin: string;
+  status: number;
+  body: string;
+  fetchedAt: number;
+  deleteAt: number;
+}
+
+/**
+ * Persistent robots.txt cache. Implemented by DatabaseService.
+ */
+export interface RobotsSource {
+  getRobotsTxt(origin: string): Promise<RobotsTxtData | null>;
+  storeRobotsTxt(data: RobotsTxtData): Promise<void>;
+}
+
+export interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+export interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+  /** Crawl-delay in seconds */
+  crawlDelay: number | null;
+}
+
+export interface RobotsCheck {
+  allowed: boolean;
+  /** Matching rule ("Disallow: /private"), null if no rule matched */
+  rule: string | null;
+  /** Crawl-delay for our user agent, in ms */
+  crawlDelay: number | null;
+  /** robots.txt came from the cache */
+  cached: boolean;
+}
+
+export interface CrawlSlot {
+  /** Time to wait before the request, in ms */
+  wait: number;
+  /** Give the slot back when no request is made after all */
+  cancel: () => void;
+}
+
+/** Custom error class for URLs disallowed by robots.txt */
+export class RobotsError extends Error {
+  code = "robots_disallowed" as const;
+  url: string;
+  rule: string | null;
+
+  constructor(message: string, url: string, rule: string | null) {
+    super(message);
+    this.name = "RobotsError";
+    this.url = url;
+    this.rule = rule;
+  }
+}
+
+/** How long a fetched robots.txt is cached (RFC 9309: at most 24 hours) */
+export const ROBOTS_TTL = 24 * 60 * 60 * 1000;
+/** Shorter cache time when robots.txt could not be fetched */
+export const ROBOTS_ERROR_TTL = 60 * 60 * 1000;
+/** Crawl-delay values above this are capped, in ms */
+export const MAX_CRAWL_DELAY = 60_000;
+/** robots.txt fetch limits (RFC 9309: parse at least 500 KiB) */
+export const ROBOTS_MAX_SIZE = 512 * 1024;
+export const ROBOTS_TIMEOUT = 10_000;
+/** Origins kept in the memory cache; the least recently used are dropped */
+export const ROBOTS_MEMORY_CACHE_SIZE = 1000;
+
+/** In least recently used order (Map keeps insertion order) */
+const memoryCache = new Map<string, RobotsTxtData>();
+
+/**
+ * Get robots.txt for an origin from the memory cache, then the source,
+ * otherwise load and store it. Expired entries are reloaded.
+ */
+export async function getRobotsTxt(
+  origin: string,
+  source: RobotsSource | null,
+  load: () => Promise<{ status: number; body: string }>
+): Promise<{ data: RobotsTxtData; cached: boolean }> {
+  const now = Date.now();
+
+  const memory = memoryCache.get(origin);
+  memoryCache.delete(origin);
+  if (memory && memory.deleteAt > now) {
+    memoryCache.set(origin, memory);
+    return { data: memory, cached: true };
+  }
+
+  const stored = source ? await source.getRobotsTxt(origin) : null;
+  if (stored && stored.deleteAt > now) {
+    cacheRobotsTxt(stored);
+    return { data: stored, cached: true };
+  }
+
+  const { status, body } = await load();
+  const ttl = isUnavailable(status) ? ROBOTS_ERROR_TTL : ROBOTS_TTL;
+  const data: RobotsTxtData = { origin, status, body, fetchedAt: now, deleteAt: now + ttl };
+
+  cacheRobotsTxt(data);
+  await source?.storeRobotsTxt(data);
+  return { data, cached: false };
+}
+
+function cacheRobotsTxt(data: RobotsTxtData): void {
+  memoryCache.delete(data.origin);
+  memoryCache.set(data.origin, data);
+  for (const origin of memoryCache.keys()) {
+    if (memoryCache.size <= ROBOTS_MEMORY_CACHE_SIZE) break;
+    memoryCache.delete(origin);
+  }
+}
+
+/**
+ * Evaluate a URL against robots.txt for a User-Agent.
+ * - 2xx: rules of the most specific matching group (or `*`)
+ * - 4xx / unfollowed redirect: everything allowed
+ * - 5xx / unreachable: everything disallowed
+ */
+export function evaluateRobots(
+  data: RobotsTxtData,
+  userAgent: string,
+  url: string
+): Omit<RobotsCheck, "cached"> {
+  const { pathname, search } = new URL(url);
+  const path = pathname + search;
+
+  if (pathname === "/robots.txt") {
+    return { allowed: true, rule: null, crawlDelay: null };
+  }
+
+  if (isUnavailable(data.status)) {
+    const reason = data.status ? `status ${data.status}` : "unreachable";
+    return { allowed: false, rule: `robots.txt ${reason}`, crawlDelay: null };
+  }
+
+  if (data.status < 200 || data.status >= 300) {
+    return { allowed: true, rule: null, crawlDelay: null };
+  }
+
+  const group = selectGroup(parseRobotsTxt(data.body), userAgent);
+  if (!group) {
+    return { allowed: true, rule: null, crawlDelay: null };
+  }
+
+  const crawlDelay = group.crawlDelay !== null
+    ? Math.min(group.crawlDelay * 1000, MAX_CRAWL_DELAY)
+    : null;
+
+  // Longest matching path wins; Allow wins a tie
+  let best: RobotsRule | null = null;
+  for (const rule of group.rules) {
+    if (!matchRobotsPath(rule.path, path)) continue;
+    if (
+      !best ||
+      rule.path.length > best.path.length ||
+      (rule.path.length === best.path.length && rule.allow)
+    ) {
+      best = rule;
+    }
+  }
+
+  return {
+    allowed: best ? best.allow : true,
+    rule: best ? `${best.allow ? "Allow" : "Disallow"}: ${best.path}` : null,
+    crawlDelay,
+  };
+}
+
+function isUnavailable(status: number): boolean {
+  return status === 0 || status >= 500;
+}
+
+/**
+ * Parse robots.txt into groups. Consecutive User-agent lines share a group;
+ * groups for the same agent are merged. Unknown lines are ignored.
+ */
+export function parseRobotsTxt(body: string): RobotsGroup[] {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  let collectingAgents = false;
+
+  for (const rawLine of body.split(/\r\n|\r|\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (key === "user-agent") {
+      if (!current || !collectingAgents) {
+        current = { userAgents: [], rules: [], crawlDelay: null };
+        groups.push(current);
+      }
+      current.userAgents.push(value.toLowerCase());
+      collectingAgents = true;
+      continue;
+    }
+
+    collectingAgents = false;
+    if (!current) continue;
+
+    if (key === "allow" || key === "disallow") {
+      // An empty Disallow allows everything
+      if (value) {
+        current.rules.push({ allow: key === "allow", path: normalizePath(value) });
+      }
+    } else if (key === "crawl-delay") {
+      const delay = Number(value);
+      if (Number.isFinite(delay) && delay >= 0) {
+        current.crawlDelay = delay;
+      }
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * The crawler's product token in a User-Agent, lowercase: the product in a
+ * `compatible;` comment (`Mozilla/5.0 (compatible; WebContent/1.0)`), else
+ * the first product (`MyBot/1.0`).
+ */
+export function robotsProductToken(userAgent: string): string {
+  const product = /\(compatible;\s*([a-z_-]+)/i.exec(userAgent) ?? /^\s*([a-z_-]+)/i.exec(userAgent);
+  return product ? product[1].toLowerCase() : "";
+}
+
+/**
+ * Pick the group for a User-Agent (RFC 9309): groups whose token equals our
+ * product token, case-insensitively (matching groups are merged), else `*`.
+ */
+function selectGroup(groups: RobotsGroup[], userAgent: string): RobotsGroup | null {
+  const product = robotsProductToken(userAgent);
+  const hasProductGroup = product !== "" && groups.some((group) => group.userAgents.includes(product));
+  const token = hasProductGroup ? product : "*";
+
+  const matching = groups.filter((group) => group.userAgents.includes(token));
+  if (matching.length === 0) {
+    return null;
+  }
+
+  return {
+    userAgents: [token],
+    rules: matching.flatMap((group) => group.rules),
+    crawlDelay: matching.find((group) => group.crawlDelay !== null)?.crawlDelay ?? null,
+  };
+}
+
+/**
+ * Match a robots.txt path pattern: `*` matches any characters,
+ * a trailing `$` anchors the end, otherwise a prefix match.
+ */
+export function matchRobotsPath(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith("$");
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const regex = body
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${regex}${anchored ? "$" : ""}`).test(path);
+}
+
+/** Percent-encode non-ASCII characters, as in URL paths */
+function normalizePath(path: string): string {
+  return path.replace(/[^\x21-\x7e]+/g, (chars) => encodeURIComponent(chars));
+}
+
+const nextRequestAt = new Map<string, number>();
+
+/**
+ * Reserve the next request slot for an origin under its Crawl-delay.
+ * Cancelling restores the previous reservation while no later one was made.
+ */
+export function reserveCrawlSlot(origin: string, crawlDelay: number): CrawlSlot {
+  const now = Date.now();
+  const previous = nextRequestAt.get(origin);
+  const slot = Math.max(now, previous ?? 0);
+  const next = slot + crawlDelay;
+  nextRequestAt.set(origin, next);
+  // Forget the origin once its delay has passed and no later slot was reserved
+  setTimeout(() => {
+    if (nextRequestAt.get(origin) === next) nextRequestAt.delete(origin);
+  }, next - now).unref();
+
+  return {
+    wait: slot - now,
+    cancel: () => {
+      if (nextRequestAt.get(origin) !== next) return;
+      if (previous !== undefined && previous > Date.now()) {
+        nextRequestAt.set(origin, previous);
+      } else {
+        nextRequestAt.delete(origin);
+      }
+    },
+  };
+}
@@ -8,6 +8,7 @@ import { loadQuickJs, type SandboxOptions } from "@sebastianwessel/quickjs";
 // @ts-ignore - wasm variant import
 import variant from "@jitl/quickjs-ng-wasmfile-release-sync";
 import { DOMBridge, type SerializedNodeData } from "./dom-bridge";
+import { validateSelector } from "./xpath";
 
 /** Result of sandbox execution */
 export interface SandboxResult {
@@ -170,6 +171,11 @@ export async function runScopeFunction(
 
   // Extract selectors from function code and pre-cache results
   const selectors = extractSelectorsFromCode(functionCode);
+  try {
+    selectors.forEach(validateSelector);
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : "Invalid selector" };
+  }
   for (const selector of selectors) {
     queryResults.set(selector, bridge.querySelector(selector));
     queryAllResults.set(selector, bridge.querySelectorAll(selector));
@@ -189,22 +195,23 @@ export async function runScopeFunction(
 }
 
 /**
- * Extract CSS selectors from function code for pre-caching.
+ * Extract CSS and XPath selectors from function code for pre-caching.
+ * A selector may contain the other quote characters (XPath string literals).
  */
 function extractSelectorsFromCode(code: string): string[] {
   const patterns = [
-    /\$\(\s*['"`]([^'"`]+)['"`]\s*\)/g,
-    /\$\$\(\s*['"`]([^'"`]+)['"`]\s*\)/g,
-    /querySelector\(\s*['"`]([^'"`]+)['"`]\s*\)/g,
-    /querySelectorAll\(\s*['"`]([^'"`]+)['"`]\s*\)/g,
-    /closest\(\s*['"`]([^'"`]+)['"`]\s*\)/g,
+    /\$\(\s*(['"`])((?:(?!\1).)+)\1\s*\)/g,
+    /\$\$\(\s*(['"`])((?:(?!\1).)+)\1\s*\)/g,
+    /querySelector\(\s*(['"`])((?:(?!\1).)+)\1\s*\)/g,
+    /querySelectorAll\(\s*(['"`])((?:(?!\1).)+)\1\s*\)/g,
+    /closest\(\s*(['"`])((?:(?!\1).)+)\1\s*\)/g,
   ];
 
   const selectors = new Set<string>();
   for (const pattern of patterns) {
     let match;
     while ((match = pattern.exec(code)) !== null) {
-      selectors.add(match[1]);
+      selectors.add(match[2]);
     }
   }
   return Array.from(selectors);
@@ -0,0 +1,159 @@
+/**
+ * Outbound Scheduler
+ * Shared request queue for all WebFetcher instances in a process: a per-host
+ * concurrency cap, a minimum delay between requests to the same host and a
+ * global concurrency ceiling. Requests wait for a slot instead of failing.
+ */
+
+import { FetchError } from "./web-fetcher";
+
+export interface SchedulerLimits {
+  /** Concurrent requests per host */
+  maxPerHost: number;
+  /** Minimum time between request starts to the same host, in ms */
+  minDelay: number;
+  /** Concurrent requests overall */
+  maxConcurrent: number;
+}
+
+export interface SchedulerSlot {
+  /** Time spent waiting for the slot, in ms */
+  waited: number;
+  release: () => void;
+}
+
+export const DEFAULT_SCHEDULER_LIMITS: SchedulerLimits = {
+  maxPerHost: 2,
+  minDelay: 250,
+  maxConcurrent: 16,
+};
+
+interface HostState {
+  active: number;
+  /** Earliest start time of the next request */
+  nextStart: number;
+}
+
+export class OutboundScheduler {
+  readonly limits: SchedulerLimits;
+  private active = 0;
+  private hosts = new Map<string, HostState>();
+  private waiters: Array<() => void> = [];
+
+  constructor(limits: Partial<SchedulerLimits> = {}) {
+    this.limits = { ...DEFAULT_SCHEDULER_LIMITS, ...limits };
+  }
+
+  /**
+   * Wait for a request slot for the URL's host. Throws FetchError ("timeout")
+   * if no slot is available before the deadline.
+   */
+  async acquire(url: string, deadline: number): Promise<SchedulerSlot> {
+    const start = Date.now();
+    const host = new URL(url).host;
+
+    while (!this.hasCapacity(host)) {
+      if (!(await this.waitForRelease(deadline))) {
+        throw new FetchError(
+          `Timed out after ${Date.now() - start}ms waiting for a request slot for ${host}`,
+          "timeout"
+        );
+      }
+    }
+
+    const state = this.hosts.get(host) ?? { active: 0, nextStart: 0 };
+    this.hosts.set(host, state);
+    state.active++;
+    this.active++;
+
+    let released = false;
+    const release = () => {
+      if (released) return;
+      released = true;
+      state.active--;
+      this.active--;
+      if (state.active === 0) {
+        // Forget idle hosts once their delay has passed
+        setTimeout(() => {
+          if (state.active === 0 && this.hosts.get(host) === state) this.hosts.delete(host);
+        }, Math.max(0, state.nextStart - Date.now())).unref();
+      }
+      this.wakeWaiters();
+    };
+
+    // Space request starts to the same host by minDelay
+    const now = Date.now();
+    const delay = Math.max(0, state.nextStart - now);
+    if (delay > 0 && now + delay >= deadline) {
+      release();
+      throw new FetchError(
+        `Request would wait ${delay}ms for the minimum delay between requests to ${host}, past the timeout`,
+        "timeout"
+      );
+    }
+    state.nextStart = now + delay + this.limits.minDelay;
+
+    if (delay > 0) {
+      await Bun.sleep(delay);
+    }
+
+    return { waited: Date.now() - start, release };
+  }
+
+  private hasCapacity(host: string): boolean {
+    const state = this.hosts.get(host);
+    return (
+      this.active < this.limits.maxConcurrent &&
+      (!state || state.active < this.limits.maxPerHost)
+    );
+  }
+
+  /** Resolves true when a slot is released, false at the deadline */
+  private waitForRelease(deadline: number): Promise<boolean> {
+    return new Promise((resolve) => {
+      const waiter = () => {
+        clearTimeout(timer);
+        resolve(true);
+      };
+      const timer = setTimeout(() => {
+        this.waiters = this.waiters.filter((w) => w !== waiter);
+        resolve(false);
+      }, Math.max(0, deadline - Date.now()));
+      this.waiters.push(waiter);
+    });
+  }
+
+  /** Wake all waiters in arrival order; each re-checks capacity */
+  private wakeWaiters(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const waiter of waiters) {
+      waiter();
+    }
+  }
+}
+
+/**
+ * Read limits from WEBCONTENT_MAX_PER_HOST, WEBCONTENT_HOST_DELAY (ms) and
+ * WEBCONTENT_MAX_CONCURRENT. Missing or invalid values use the defaults.
+ */
+export function loadSchedulerLimits(env: Record<string, string | undefined> = process.env): SchedulerLimits {
+  return {
+    maxPerHost: parseLimit(env.WEBCONTENT_MAX_PER_HOST, DEFAULT_SCHEDULER_LIMITS.maxPerHost, 1),
+    minDelay: parseLimit(env.WEBCONTENT_HOST_DELAY, DEFAULT_SCHEDULER_LIMITS.minDelay, 0),
+    maxConcurrent: parseLimit(env.WEBCONTENT_MAX_CONCURRENT, DEFAULT_SCHEDULER_LIMITS.maxConcurrent, 1),
+  };
+}
+
+function parseLimit(value: string | undefined, fallback: number, min: number): number {
+  const parsed = Number(value);
+  return value !== undefined && Number.isInteger(parsed) && parsed >= min ? parsed : fallback;
+}
+
+let sharedScheduler: OutboundScheduler | null = null;
+
+/** Process-wide scheduler used by WebFetcher unless one is passed in */
+export function getSharedScheduler(): OutboundScheduler {
+  sharedScheduler ??= new OutboundScheduler(loadSchedulerLimits());
+  return sharedScheduler;
+}
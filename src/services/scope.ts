@@ -3,16 +3,36 @@
  * See docs/implementation/scope.md for detailed specification.
  */
 
+import type { MainCandidate } from "./readability";
+import { CONTENT_FORMATS, type ContentFormat } from "./html-parser";
+import { validateSelector } from "./xpath";
+
 /**
  * Selector-based scope configuration.
- * Extracts content matching CSS selectors.
+ * Extracts content matching CSS selectors (or XPath with an `xpath:` prefix):
+ * `include` matches are combined in document order, `fields` are extracted
+ * separately into a JSON object.
  */
 export interface SelectorScope {
   type: "selector";
-  include: string[];
+  include?: string[];
+  fields?: Record<string, SelectorField>;
   exclude?: string[];
 }
 
+/**
+ * A named value of a selector scope in fields mode.
+ */
+export interface SelectorField {
+  selector: string;
+  /** Read this attribute instead of the element content */
+  attribute?: string;
+  /** All matches as an array (default: the first match, or null) */
+  multiple?: boolean;
+  /** Format of the element content (default: text) */
+  format?: ContentFormat;
+}
+
 /**
  * Function-based scope configuration.
  * Provides custom extraction logic as JavaScript code.
@@ -55,6 +75,8 @@ export interface ScopeResolution {
   scopeResolved: boolean;
   /** Handler ID if a handler was matched */
   handlerId?: string;
+  /** Main content candidate for "main" (null: fell back to the body) */
+  main?: MainCandidate | null;
 }
 
 /**
@@ -89,7 +111,7 @@ export function isHandlerScope(scope: Scope): scope is HandlerScope {
  * Parse scope from CLI string argument.
  * Handles:
  * - Simple scopes: "main", "full", "auto"
- * - Selector shorthand: "selector:article,.content" or "selector:article,.content:--.ads,nav"
+ * - Selector shorthand: "selector:article,.content" or "selector:xpath://h2[.='Specs']/following-sibling::ul"
  * - JSON object scopes
  */
 export function parseScopeArg(arg: string, excludeArg?: string): Scope {
@@ -106,8 +128,7 @@ export function parseScopeArg(arg: string, excludeArg?: string): Scope {
 
   // Selector shorthand: "selector:article,.content"
   if (arg.startsWith("selector:")) {
-    const selectorPart = arg.slice("selector:".length);
-    const include = selectorPart.split(",").map((s) => s.trim()).filter(Boolean);
+    const include = splitSelectorList(arg.slice("selector:".length));
 
     if (include.length === 0) {
       throw new Error("Selector scope requires at least one include selector");
@@ -117,10 +138,10 @@ export function parseScopeArg(arg: string, excludeArg?: string): Scope {
 
     // Add exclude if provided
     if (excludeArg) {
-      scope.exclude = excludeArg.split(",").map((s) => s.trim()).filter(Boolean);
+      scope.exclude = splitSelectorList(excludeArg);
     }
 
-    return scope;
+    return validateScope(scope);
   }
 
   throw new Error(
@@ -128,6 +149,36 @@ export function parseScopeArg(arg: string, excludeArg?: string): Scope {
   );
 }
 
+/**
+ * Split a comma-separated selector list. Commas inside brackets, parentheses
+ * or quotes (XPath predicates, `:is(a, b)`) do not split.
+ */
+function splitSelectorList(list: string): string[] {
+  const selectors: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+
+  for (let i = 0; i < list.length; i++) {
+    const char = list[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "(" || char === "[") {
+      depth++;
+    } else if (char === ")" || char === "]") {
+      depth--;
+    } else if (char === "," && depth === 0) {
+      selectors.push(list.slice(start, i));
+      start = i + 1;
+    }
+  }
+  selectors.push(list.slice(start));
+
+  return selectors.map((s) => s.trim()).filter(Boolean);
+}
+
 /**
  * Validate a scope object structure
  */
@@ -151,19 +202,31 @@ export function validateScope(obj: unknown): Scope {
 
   switch (scope.type) {
     case "selector": {
-      if (!Array.isArray(scope.include) || scope.include.length === 0) {
-        throw new Error("Selector scope requires non-empty 'include' array");
+      if (scope.fields !== undefined && scope.include !== undefined) {
+        throw new Error("Selector scope takes 'include' or 'fields', not both");
+      }
+      let result: SelectorScope;
+      if (scope.fields !== undefined) {
+        result = { type: "selector", fields: validateSelectorFields(scope.fields) };
+      } else {
+        if (!Array.isArray(scope.include) || scope.include.length === 0) {
+          throw new Error("Selector scope requires non-empty 'include' array");
+        }
+        result = { type: "selector", include: scope.include as string[] };
       }
-      const result: SelectorScope = {
-        type: "selector",
-        include: scope.include as string[],
-      };
       if (scope.exclude) {
         if (!Array.isArray(scope.exclude)) {
           throw new Error("Selector scope 'exclude' must be an array");
         }
         result.exclude = scope.exclude as string[];
       }
+      // XPath selectors are compiled here, so mistakes are reported up front
+      for (const selector of [...(result.include ?? []), ...(result.exclude ?? [])]) {
+        if (typeof selector !== "string" || !selector.trim()) {
+          throw new Error("Selector scope selectors must be non-empty strings");
+        }
+        validateSelector(selector);
+      }
       return result;
     }
 
@@ -194,6 +257,54 @@ export function validateScope(obj: unknown): Scope {
   }
 }
 
+/**
+ * Validate selector scope fields. A string is shorthand for `{ selector }`.
+ */
+function validateSelectorFields(input: unknown): Record<string, SelectorField> {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    throw new Error("Selector scope 'fields' must be an object of named selectors");
+  }
+  const entries = Object.entries(input);
+  if (entries.length === 0) {
+    throw new Error("Selector scope 'fields' must not be empty");
+  }
+
+  const fields: Record<string, SelectorField> = {};
+  for (const [name, value] of entries) {
+    const raw = typeof value === "string" ? { selector: value } : value;
+    if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+      throw new Error(`Field '${name}' must be a selector or an object with 'selector'`);
+    }
+    const { selector, attribute, multiple, format } = raw as Record<string, unknown>;
+
+    if (typeof selector !== "string" || !selector.trim()) {
+      throw new Error(`Field '${name}' requires a non-empty 'selector'`);
+    }
+    validateSelector(selector);
+    const field: SelectorField = { selector };
+    if (attribute !== undefined) {
+      if (typeof attribute !== "string" || !attribute.trim()) {
+        throw new Error(`Field '${name}' 'attribute' must be a non-empty string`);
+      }
+      field.attribute = attribute;
+    }
+    if (multiple !== undefined) {
+      if (typeof multiple !== "boolean") {
+        throw new Error(`Field '${name}' 'multiple' must be a boolean`);
+      }
+      field.multiple = multiple;
+    }
+    if (format !== undefined) {
+      if (!CONTENT_FORMATS.includes(format as ContentFormat)) {
+        throw new Error(`Field '${name}' 'format' must be "html", "markdown", "text", or "json"`);
+      }
+      field.format = format as ContentFormat;
+    }
+    fields[name] = field;
+  }
+  return fields;
+}
+
 /**
  * Normalize scope for caching/hashing purposes.
  * For "auto" scope, returns the resolved scope.
@@ -215,7 +326,9 @@ export function scopeToString(scope: Scope): string {
 
   switch (scope.type) {
     case "selector":
-      return `selector:[${scope.include.join(",")}]`;
+      return scope.fields
+        ? `selector:{${Object.keys(scope.fields).join(",")}}`
+        : `selector:[${(scope.include ?? []).join(",")}]`;
     case "function":
       return "function";
     case "handler":
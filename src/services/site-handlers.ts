@@ -0,0 +1,267 @@
+/**
+ * Site Handlers
+ * Named extraction scopes matched against URLs by hostname and path patterns.
+ * See docs/implementation/site-handlers.md for matching rules.
+ */
+
+import {
+  type SelectorScope,
+  type FunctionScope,
+  validateScope,
+  isSelectorScope,
+  isFunctionScope,
+} from "./scope";
+
+/** Scope a site handler applies (selector or function) */
+export type SiteHandlerScope = SelectorScope | FunctionScope;
+
+export interface SiteHandlerData {
+  id?: string;
+  name: string;
+  description: string | null;
+  /** Exact hostname or wildcard, e.g. "example.com" or "*.example.com" */
+  hostname: string;
+  /** Glob patterns - path must match at least one (if any are given) */
+  pathInclude: string[];
+  /** Glob patterns - path must not match any */
+  pathExclude: string[];
+  scope: SiteHandlerScope;
+  enabled: boolean;
+  /** Owning client, or null for handlers shared by all clients */
+  client: string | null;
+}
+
+export interface SiteHandler extends SiteHandlerData {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Lookup interface used by extraction to resolve handler and "auto" scopes.
+ * Implemented by DatabaseService.
+ *
+ * A client sees its own handlers plus shared ones (client = null);
+ * `null` restricts the lookup to shared handlers.
+ */
+export interface HandlerSource {
+  getHandlerById(id: string, client?: string | null): Promise<SiteHandler | null>;
+  getHandlersForHostname(hostname: string, client?: string | null): Promise<SiteHandler[]>;
+}
+
+const HANDLER_ID_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+/**
+ * Validate a site handler payload (API body, CLI file).
+ * With `partial`, only the provided fields are validated and returned (for updates).
+ * The `client` field is not read here - callers set it from the request context.
+ */
+export function validateSiteHandler(obj: unknown): Omit<SiteHandlerData, "client">;
+export function validateSiteHandler(
+  obj: unknown,
+  partial: true
+): Partial<Omit<SiteHandlerData, "client">>;
+export function validateSiteHandler(
+  obj: unknown,
+  partial = false
+): Partial<Omit<SiteHandlerData, "client">> {
+  if (typeof obj !== "object" || obj === null || Array.isArray(obj)) {
+    throw new Error("Handler must be a JSON object");
+  }
+
+  const input = obj as Record<string, unknown>;
+  const result: Partial<Omit<SiteHandlerData, "client">> = {};
+
+  if (input.id !== undefined) {
+    if (typeof input.id !== "string" || !HANDLER_ID_PATTERN.test(input.id)) {
+      throw new Error("Handler 'id' must be 1-64 characters: letters, digits, '_' or '-'");
+    }
+    result.id = input.id;
+  }
+
+  if (input.name !== undefined || !partial) {
+    if (typeof input.name !== "string" || !input.name.trim()) {
+      throw new Error("Handler requires non-empty 'name' string");
+    }
+    result.name = input.name.trim();
+  }
+
+  if (input.description !== undefined) {
+    if (input.description !== null && typeof input.description !== "string") {
+      throw new Error("Handler 'description' must be a string");
+    }
+    result.description = input.description || null;
+  } else if (!partial) {
+    result.description = null;
+  }
+
+  if (input.hostname !== undefined || !partial) {
+    if (typeof input.hostname !== "string" || !isValidHostnamePattern(input.hostname)) {
+      throw new Error(
+        'Handler requires a valid \'hostname\', e.g. "example.com" or "*.example.com"'
+      );
+    }
+    result.hostname = input.hostname.toLowerCase();
+  }
+
+  for (const field of ["pathInclude", "pathExclude"] as const) {
+    if (input[field] !== undefined) {
+      result[field] = validatePathPatterns(input[field], field);
+    } else if (!partial) {
+      result[field] = [];
+    }
+  }
+
+  if (input.scope !== undefined || !partial) {
+    if (input.scope === undefined) {
+      throw new Error("Handler requires a 'scope'");
+    }
+    const scope = validateScope(input.scope);
+    if (!isSelectorScope(scope) && !isFunctionScope(scope)) {
+      throw new Error("Handler scope must be a selector or function scope");
+    }
+    result.scope = scope;
+  }
+
+  if (input.enabled !== undefined) {
+    if (typeof input.enabled !== "boolean") {
+      throw new Error("Handler 'enabled' must be a boolean");
+    }
+    result.enabled = input.enabled;
+  } else if (!partial) {
+    result.enabled = true;
+  }
+
+  return result;
+}
+
+function isValidHostnamePattern(hostname: string): boolean {
+  return /^(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)*$/i.test(hostname);
+}
+
+function validatePathPatterns(value: unknown, field: string): string[] {
+  if (!Array.isArray(value) || value.some((p) => typeof p !== "string" || !p.startsWith("/"))) {
+    throw new Error(`Handler '${field}' must be an array of path patterns starting with "/"`);
+  }
+  return value as string[];
+}
+
+/**
+ * Check if a hostname matches a handler hostname pattern.
+ * "*.example.com" matches any subdomain of example.com, but not example.com itself.
+ */
+export function matchHostname(pattern: string, hostname: string): boolean {
+  const p = pattern.toLowerCase();
+  const h = hostname.toLowerCase();
+
+  if (p.startsWith("*.")) {
+    return h.endsWith(p.slice(1));
+  }
+
+  return p === h;
+}
+
+/**
+ * Check if a URL path matches a glob pattern.
+ * - `*` matches any characters within a single path segment
+ * - `**` matches any characters across path segments
+ * - Patterns without wildcards are exact matches
+ */
+export function matchPath(pattern: string, path: string): boolean {
+  return globToRegExp(pattern).test(path);
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let source = "";
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        source += ".*";
+        i++;
+      } else {
+        source += "[^/]*";
+      }
+    } else {
+      source += char.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/** Number of non-wildcard characters in a pattern (higher = more specific) */
+function literalLength(pattern: string): number {
+  return pattern.replace(/\*/g, "").length;
+}
+
+/**
+ * Score how specifically a handler matches a URL.
+ * Returns null if the handler does not match.
+ *
+ * Exact hostnames beat wildcards, longer wildcards beat shorter ones,
+ * and handlers with a matching path include beat catch-all handlers.
+ */
+export function scoreHandlerMatch(handler: SiteHandler, url: URL): number | null {
+  if (!handler.enabled || !matchHostname(handler.hostname, url.hostname)) {
+    return null;
+  }
+
+  const path = url.pathname;
+
+  if (handler.pathExclude.some((pattern) => matchPath(pattern, path))) {
+    return null;
+  }
+
+  let pathScore = 0;
+  if (handler.pathInclude.length > 0) {
+    const matched = handler.pathInclude.filter((pattern) => matchPath(pattern, path));
+    if (matched.length === 0) {
+      return null;
+    }
+    pathScore = 1 + Math.max(...matched.map(literalLength));
+  }
+
+  const hostScore = handler.hostname.startsWith("*.")
+    ? literalLength(handler.hostname)
+    : 10_000;
+
+  return hostScore * 10_000 + pathScore;
+}
+
+/**
+ * Pick the best-matching handler for a URL.
+ * Ties are broken by preferring client-owned handlers over shared ones,
+ * then the most recently updated handler.
+ */
+export function selectHandler(handlers: SiteHandler[], url: string): SiteHandler | null {
+  let urlObj: URL;
+  try {
+    urlObj = new URL(url);
+  } catch {
+    return null;
+  }
+
+  let best: SiteHandler | null = null;
+  let bestScore = -1;
+
+  for (const handler of handlers) {
+    const score = scoreHandlerMatch(handler, urlObj);
+    if (score === null) continue;
+
+    if (score > bestScore || (score === bestScore && best && isPreferred(handler, best))) {
+      best = handler;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+function isPreferred(handler: SiteHandler, current: SiteHandler): boolean {
+  if ((handler.client !== null) !== (current.client !== null)) {
+    return handler.client !== null;
+  }
+  return handler.updatedAt > current.updatedAt;
+}
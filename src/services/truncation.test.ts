@@ -0,0 +1,61 @@
+import { describe, expect, test } from "bun:test";
+import { extractContent } from "./html-parser";
+import { truncateContent } from "./truncation";
+
+const PRICING_HTML = `<html><body><main>
+<h1>Pricing</h1>
+<p>${"Intro text about our plans. ".repeat(8)}</p>
+<h2>Prices</h2>
+<table>
+  <thead><tr><th>Plan</th><th>Price</th></tr></thead>
+  <tbody>
+    <tr><td>Basic</td><td>$10</td></tr>
+    <tr><td>Pro</td><td>$20</td></tr>
+    <tr><td>Team</td><td>$50</td></tr>
+    <tr><td>Enterprise</td><td>Contact us for a quote</td></tr>
+  </tbody>
+</table>
+<h2>Details</h2>
+<p>${"More details here. ".repeat(10)}</p>
+</main></body></html>`;
+
+describe("markdown truncation", () => {
+  test("a basic-flavor table cut inside is dropped with its heading", () => {
+    const markdown = extractContent(PRICING_HTML, false, "markdown", "https://example.com/");
+    // Basic markdown has no table syntax: each cell is its own paragraph
+    expect(markdown).toContain("## Prices\n\nPlan\n\nPrice");
+
+    const { content, truncation } = truncateContent(markdown, "markdown", { maxLength: 280 });
+    expect(content).not.toContain("## Prices");
+    expect(content).not.toContain("Plan");
+    expect(content.endsWith("Intro text about our plans.")).toBe(true);
+    expect(truncation?.droppedSections).toEqual(["Prices", "Details"]);
+  });
+
+  test("a section that fits is kept whole", () => {
+    const markdown = extractContent(PRICING_HTML, false, "markdown", "https://example.com/");
+    const { content, truncation } = truncateContent(markdown, "markdown", { maxLength: 400 });
+    expect(content.endsWith("Contact us for a quote")).toBe(true);
+    expect(truncation?.droppedSections).toEqual(["Details"]);
+  });
+
+  test("the first section is cut inside when nothing comes before it", () => {
+    const markdown = `# Article\n\n${Array.from({ length: 10 }, (_, i) => `Paragraph ${i} of the article.`).join("\n\n")}`;
+    const { content, truncation } = truncateContent(markdown, "markdown", { maxLength: 100 });
+    expect(content.startsWith("# Article\n\nParagraph 0 of the article.")).toBe(true);
+    expect(content.endsWith("Paragraph 2 of the article.")).toBe(true);
+    expect(truncation?.droppedSections).toBeUndefined();
+  });
+
+  test("a completed section keeps its heading when the next one does not fit", () => {
+    const markdown = "## One\n\nFirst body.\n\n## Two\n\n" + "Second body. ".repeat(20).trim();
+    const { content, truncation } = truncateContent(markdown, "markdown", { maxLength: 40 });
+    expect(content).toBe("## One\n\nFirst body.");
+    expect(truncation?.droppedSections).toEqual(["Two"]);
+  });
+
+  test("plain text is cut at paragraphs", () => {
+    const text = "First paragraph.\n\nSecond paragraph.\n\nThird paragraph.";
+    expect(truncateContent(text, "text", { maxLength: 40 }).content).toBe("First paragraph.\n\nSecond paragraph.");
+  });
+});
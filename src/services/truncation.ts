@@ -0,0 +1,267 @@
+/**
+ * Content Truncation
+ * Cuts extracted content down to a size budget (maxLength characters or
+ * approximate maxTokens) at a block boundary: whole paragraphs, code blocks
+ * and sections for markdown, top-level elements for html, whole blocks for
+ * json. Only a single block larger than the budget is cut inside, at a
+ * sentence or word boundary.
+ */
+
+import { parse, HTMLElement, TextNode } from "node-html-parser";
+import type { ContentFormat } from "./html-parser";
+import type { ContentBlock, ContentTree } from "./blocks";
+import { CHARS_PER_TOKEN, splitSpans, lastBoundary } from "./chunker";
+
+export interface ContentLimits {
+  /** Maximum content length in characters */
+  maxLength?: number;
+  /** Maximum content size in approximate tokens (4 characters each) */
+  maxTokens?: number;
+}
+
+/** Result fields for truncated content */
+export interface Truncation {
+  truncated: true;
+  /** Length of the content before truncation */
+  originalLength: number;
+  /** Headings of the sections that were cut off, in order */
+  droppedSections?: string[];
+}
+
+const HEADING_SELECTOR = "h1, h2, h3, h4, h5, h6";
+
+/**
+ * Validate maxLength and maxTokens (positive integers, both optional).
+ * Throws with a message suitable for a 400 response.
+ */
+export function validateContentLimits(input: { maxLength?: unknown; maxTokens?: unknown }): ContentLimits {
+  const limits: ContentLimits = {};
+  for (const key of ["maxLength", "maxTokens"] as const) {
+    const value = input[key];
+    if (value === undefined) continue;
+    if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+      throw new Error(`'${key}' must be a positive integer`);
+    }
+    limits[key] = value;
+  }
+  return limits;
+}
+
+/**
+ * Truncate content to the smaller of the limits. Returns the content as is
+ * (and no truncation) if it fits or there are no limits.
+ */
+export function truncateContent(
+  content: string,
+  format: ContentFormat,
+  limits: ContentLimits
+): { content: string; truncation?: Truncation } {
+  const limit = Math.min(
+    limits.maxLength ?? Infinity,
+    limits.maxTokens !== undefined ? limits.maxTokens * CHARS_PER_TOKEN : Infinity
+  );
+  if (content.length <= limit) {
+    return { content };
+  }
+
+  let truncated: string;
+  switch (format) {
+    case "markdown":
+    case "text":
+      truncated = truncateText(content, limit, format === "markdown");
+      break;
+    case "html":
+      truncated = fitNodes(parse(content), limit);
+      break;
+    case "json":
+      truncated = truncateJson(content, limit);
+      break;
+  }
+
+  // Sections after the last heading that was kept
+  const headings = contentHeadings(content, format);
+  const droppedSections = headings.slice(contentHeadings(truncated, format).length);
+
+  return {
+    content: truncated,
+    truncation: {
+      truncated: true,
+      originalLength: content.length,
+      ...(droppedSections.length > 0 && { droppedSections }),
+    },
+  };
+}
+
+/**
+ * Whole blocks that fit, without trailing headings (a heading without its
+ * content is not useful). A markdown section cut inside is dropped with its
+ * heading when content comes before it: its blocks may be parts of one unit,
+ * such as the cells of a basic-flavor table. If not even the first block
+ * after the leading headings fits, it is cut at the last line, sentence or
+ * word boundary.
+ */
+function truncateText(content: string, limit: number, markdown: boolean): string {
+  const spans = splitSpans(content, markdown);
+  let kept = [];
+  for (const span of spans) {
+    if (span.end > limit) break;
+    kept.push(span);
+  }
+  kept = withoutTrailingHeadings(kept);
+
+  const cutInsideSection = kept.length < spans.length && !spans[kept.length].heading;
+  if (cutInsideSection) {
+    const sectionStart = kept.findLastIndex((span) => span.heading);
+    const before = withoutTrailingHeadings(kept.slice(0, Math.max(sectionStart, 0)));
+    if (before.length > 0) kept = before;
+  }
+
+  if (kept.length > 0) {
+    return content.slice(0, kept[kept.length - 1].end);
+  }
+  const first = spans.find((span) => !span.heading);
+  const from = first && first.start < limit ? first.start : 0;
+  return content.slice(0, lastBoundary(content, from, limit)).trimEnd();
+}
+
+function withoutTrailingHeadings<T extends { heading?: unknown }>(spans: T[]): T[] {
+  let end = spans.length;
+  while (end > 0 && spans[end - 1].heading) end--;
+  return spans.slice(0, end);
+}
+
+/**
+ * Top-level nodes that fit, without trailing headings. If the first one does
+ * not, its children are fitted inside it (text is cut at a boundary).
+ */
+function fitNodes(parent: HTMLElement, budget: number): string {
+  const kept: { html: string; heading: boolean }[] = [];
+  let used = 0;
+
+  for (const child of parent.childNodes) {
+    const childHtml = child.toString();
+    if (used + childHtml.length <= budget) {
+      const heading = child instanceof HTMLElement && /^h[1-6]$/i.test(child.rawTagName);
+      kept.push({ html: childHtml, heading });
+      used += childHtml.length;
+      continue;
+    }
+
+    if (!kept.some((node) => node.html.trim())) {
+      if (child instanceof HTMLElement && child.childNodes.length > 0) {
+        const attributes = child.rawAttrs ? ` ${child.rawAttrs}` : "";
+        const open = `<${child.rawTagName}${attributes}>`;
+        const close = `</${child.rawTagName}>`;
+        const inner = fitNodes(child, budget - used - open.length - close.length);
+        if (inner.trim()) {
+          kept.push({ html: open + inner + close, heading: false });
+        }
+      } else if (child instanceof TextNode) {
+        const cut = lastBoundary(childHtml, 0, budget - used);
+        kept.push({ html: childHtml.slice(0, cut).trimEnd(), heading: false });
+      }
+    }
+    break;
+  }
+
+  // Drop trailing headings (and the whitespace between them)
+  while (kept.length > 0 && (kept[kept.length - 1].heading || !kept[kept.length - 1].html.trim())) {
+    kept.pop();
+  }
+
+  return kept.map((node) => node.html).join("");
+}
+
+/**
+ * Whole blocks that fit; a section that does not fit keeps the children that
+ * do. Other JSON objects (selector fields, function scope results) keep the
+ * entries that fit; anything else is cut as text.
+ */
+function truncateJson(content: string, limit: number): string {
+  const tree = parseTree(content);
+  if (tree) {
+    const empty = JSON.stringify({ blocks: [] }).length;
+    return JSON.stringify({ blocks: fitBlocks(tree.blocks, limit - empty) });
+  }
+
+  const object = parseObject(content);
+  if (object) {
+    const kept: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(object)) {
+      kept[key] = value;
+      if (JSON.stringify(kept, null, 2).length > limit) {
+        delete kept[key];
+        break;
+      }
+    }
+    return JSON.stringify(kept, null, 2);
+  }
+
+  return truncateText(content, limit, false);
+}
+
+function fitBlocks(blocks: ContentBlock[], budget: number): ContentBlock[] {
+  const kept: ContentBlock[] = [];
+  let used = 0;
+
+  for (const block of blocks) {
+    // Blocks after the first are preceded by a comma
+    const separator = kept.length > 0 ? 1 : 0;
+    const size = JSON.stringify(block).length + separator;
+    if (used + size <= budget) {
+      kept.push(block);
+      used += size;
+      continue;
+    }
+
+    if (block.type === "section") {
+      const shell = JSON.stringify({ ...block, children: [] }).length + separator;
+      const children = fitBlocks(block.children, budget - used - shell);
+      if (children.length > 0) {
+        kept.push({ ...block, children });
+      }
+    }
+    break;
+  }
+
+  return kept;
+}
+
+/** Section headings in document order */
+function contentHeadings(content: string, format: ContentFormat): string[] {
+  switch (format) {
+    case "markdown":
+      return splitSpans(content, true).flatMap((span) => (span.heading ? [span.heading.text] : []));
+    case "html":
+      return parse(content)
+        .querySelectorAll(HEADING_SELECTOR)
+        .map((heading) => heading.textContent.replace(/\s+/g, " ").trim());
+    case "json": {
+      // Field names stand in for the headings of JSON objects
+      const tree = parseTree(content);
+      return tree ? sectionHeadings(tree.blocks) : Object.keys(parseObject(content) ?? {});
+    }
+    case "text":
+      return [];
+  }
+}
+
+function parseTree(content: string): ContentTree | null {
+  const tree = parseObject(content);
+  return Array.isArray(tree?.blocks) ? (tree as unknown as ContentTree) : null;
+}
+
+function parseObject(content: string): Record<string, unknown> | null {
+  try {
+    const value = JSON.parse(content);
+    return typeof value === "object" && value !== null && !Array.isArray(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+function sectionHeadings(blocks: ContentBlock[]): string[] {
+  return blocks.flatMap((block) =>
+    block.type === "section" ? [block.heading, ...sectionHeadings(block.children)] : []
+  );
+}
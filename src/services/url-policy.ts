@@ -0,0 +1,174 @@
+/**
+ * URL Policy
+ * Guards server-side fetches against SSRF: resolves the target hostname and
+ * rejects private, loopback, link-local and metadata addresses, plus
+ * configurable allow/deny host lists. Checked before every redirect hop and
+ * for request proxies; the fetcher connects to the checked address.
+ */
+
+import { BlockList, isIP } from "node:net";
+import { lookup } from "node:dns/promises";
+import { matchHostname } from "./site-handlers";
+import { FetchError } from "./web-fetcher";
+
+export interface UrlPolicy {
+  /** Hostname patterns or CIDR ranges exempt from the address checks */
+  allowHosts: string[];
+  /** Hostname patterns or CIDR ranges that are always rejected */
+  denyHosts: string[];
+}
+
+export type UrlPolicyErrorCode = "denied_host" | "private_address";
+
+/** Custom error class for URLs rejected by the policy */
+export class UrlPolicyError extends Error {
+  code: UrlPolicyErrorCode;
+  /** The rejected URL (may be a redirect target) */
+  url: string;
+
+  constructor(message: string, code: UrlPolicyErrorCode, url: string) {
+    super(message);
+    this.name = "UrlPolicyError";
+    this.code = code;
+    this.url = url;
+  }
+}
+
+/** Non-public ranges: this network, private, CGNAT, loopback, link-local (incl. cloud metadata), reserved, multicast, NAT64 */
+const BLOCKED_RANGES = [
+  "0.0.0.0/8",
+  "10.0.0.0/8",
+  "100.64.0.0/10",
+  "127.0.0.0/8",
+  "169.254.0.0/16",
+  "172.16.0.0/12",
+  "192.0.0.0/24",
+  "192.168.0.0/16",
+  "198.18.0.0/15",
+  "224.0.0.0/4",
+  "240.0.0.0/4",
+  "::/128",
+  "::1/128",
+  "64:ff9b::/96",
+  "fc00::/7",
+  "fe80::/10",
+  "ff00::/8",
+];
+
+/** Metadata endpoints reachable by name */
+const BLOCKED_HOSTNAMES = ["localhost", "*.localhost", "metadata", "metadata.google.internal"];
+
+const blockedAddresses = createBlockList(BLOCKED_RANGES);
+
+/**
+ * Read the policy from WEBCONTENT_ALLOW_HOSTS / WEBCONTENT_DENY_HOSTS
+ * (comma-separated hostname patterns or CIDR ranges).
+ */
+export function loadUrlPolicy(env: Record<string, string | undefined> = process.env): UrlPolicy {
+  return {
+    allowHosts: parseHostList(env.WEBCONTENT_ALLOW_HOSTS, "WEBCONTENT_ALLOW_HOSTS"),
+    denyHosts: parseHostList(env.WEBCONTENT_DENY_HOSTS, "WEBCONTENT_DENY_HOSTS"),
+  };
+}
+
+function parseHostList(value: string | undefined, name: string): string[] {
+  if (!value) return [];
+  const entries = value.split(",").map((s) => s.trim().toLowerCase()).filter(Boolean);
+  try {
+    createBlockList(entries.filter(isCidr));
+  } catch {
+    throw new Error(`${name} contains an invalid CIDR range`);
+  }
+  return entries;
+}
+
+/**
+ * Check a URL against the policy and return the addresses it resolved to, so
+ * the request can connect to one of them instead of resolving again (DNS
+ * rebinding). Throws UrlPolicyError if it is rejected, or FetchError
+ * ("network") if the hostname does not resolve.
+ *
+ * Order: deny list, then allow list, then blocked hostnames and addresses.
+ * A host is denied by name or if any of its addresses is in a denied range;
+ * it is allowed by name or if all of its addresses are in allowed ranges.
+ */
+export async function checkUrl(url: string, policy: UrlPolicy): Promise<string[]> {
+  const hostname = new URL(url).hostname.toLowerCase().replace(/^\[|\]$/g, "");
+
+  // Denied names are rejected before any DNS lookup
+  if (matchesHostName(policy.denyHosts, hostname)) {
+    throw new UrlPolicyError(`Host ${hostname} is denied`, "denied_host", url);
+  }
+
+  const addresses = await resolveHost(hostname);
+
+  if (addresses.some((address) => matchesRange(policy.denyHosts, address))) {
+    throw new UrlPolicyError(`Host ${hostname} is denied`, "denied_host", url);
+  }
+
+  if (
+    matchesHostName(policy.allowHosts, hostname) ||
+    addresses.every((address) => matchesRange(policy.allowHosts, address))
+  ) {
+    return addresses;
+  }
+
+  if (BLOCKED_HOSTNAMES.some((pattern) => matchHostname(pattern, hostname))) {
+    throw new UrlPolicyError(`Host ${hostname} is not allowed`, "private_address", url);
+  }
+
+  const blocked = addresses.find((address) => blockedAddresses.check(address, ipFamily(address)));
+  if (blocked) {
+    throw new UrlPolicyError(
+      `Host ${hostname} resolves to non-public address ${blocked}`,
+      "private_address",
+      url
+    );
+  }
+
+  return addresses;
+}
+
+async function resolveHost(hostname: string): Promise<string[]> {
+  if (isIP(hostname)) {
+    return [hostname];
+  }
+  try {
+    const results = await lookup(hostname, { all: true });
+    return results.map((r) => r.address);
+  } catch {
+    throw new FetchError(`Could not resolve host ${hostname}`, "network", 0);
+  }
+}
+
+function matchesHostName(entries: string[], hostname: string): boolean {
+  return entries.some((entry) => !isCidr(entry) && matchHostname(entry, hostname));
+}
+
+function matchesRange(entries: string[], address: string): boolean {
+  const ranges = entries.filter(isCidr);
+  return ranges.length > 0 && createBlockList(ranges).check(address, ipFamily(address));
+}
+
+/** IP addresses and CIDR ranges ("10.1.0.0/16", "fd00::/8", "192.168.1.5") */
+function isCidr(entry: string): boolean {
+  return isIP(entry.split("/")[0]) !== 0;
+}
+
+function createBlockList(ranges: string[]): BlockList {
+  const list = new BlockList();
+  for (const range of ranges) {
+    const [address, prefix] = range.split("/");
+    const family = ipFamily(address);
+    if (prefix === undefined) {
+      list.addAddress(address, family);
+    } else {
+      list.addSubnet(address, Number(prefix), family);
+    }
+  }
+  return list;
+}
+
+function ipFamily(address: string): "ipv4" | "ipv6" {
+  return isIP(address) === 6 ? "ipv6" : "ipv4";
+}
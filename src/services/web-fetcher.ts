@@ -1,43 +1,900 @@
+import { isIP } from "node:net";
+import { checkServerIdentity } from "node:tls";
+import { decodeBody, type CharsetSource } from "./charset";
+import { proxyForUrl, redactProxyUrl, validateProxyUrl, parseNoProxy } from "./proxy";
+import { checkUrl, UrlPolicyError, type UrlPolicy } from "./url-policy";
+import { getSharedScheduler, type OutboundScheduler } from "./scheduler";
+import {
+  getRobotsTxt,
+  evaluateRobots,
+  reserveCrawlSlot,
+  RobotsError,
+  ROBOTS_MAX_SIZE,
+  ROBOTS_TIMEOUT,
+  type RobotsCheck,
+  type RobotsSource,
+} from "./robots";
+
+export interface RedirectHop {
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+}
+
 export interface FetchResult {
+  /** Final URL after following redirects */
   url: string;
   status: number;
+  /** Location of an unfollowed redirect (3xx), otherwise null */
   redirect: string | null;
+  /** Redirect responses that were followed, in order */
+  redirects: RedirectHop[];
+  headers: Record<string, string>;
+  body: string;
+  /** Undecoded body, for binary documents such as PDF */
+  bytes: Uint8Array;
+  /** Encoding the body was decoded with */
+  encoding: string;
+  encodingSource: CharsetSource;
+  /** Number of HTTP requests made, including retries and redirects */
+  attempts: number;
+  /** Time spent waiting for outbound request slots, in ms */
+  queueWait: number;
+  /** Proxy used for the final request (credentials redacted), null if direct */
+  proxy: string | null;
+  /** robots.txt check of the final URL, null unless respectRobots is set */
+  robots: RobotsCheck | null;
+}
+
+/** Error kinds that can be retried */
+export type RetryableError = "network" | "timeout";
+
+export interface WebFetchOptions {
+  /** Follow 3xx responses with a Location header (default: true) */
+  followRedirects?: boolean;
+  /** Maximum number of redirects to follow (default: 10) */
+  maxRedirects?: number;
+  /** Total time for the fetch including retries and redirects, in ms (default: 30000) */
+  timeout?: number;
+  /** Time until response headers arrive, per request, in ms (default: 10000) */
+  connectTimeout?: number;
+  /** Maximum response body size in bytes (default: 10 MB) */
+  maxBodySize?: number;
+  /** Number of retries after the first attempt (default: 2) */
+  retries?: number;
+  /** Base delay for exponential backoff, in ms (default: 500) */
+  retryDelay?: number;
+  /** HTTP statuses that are retried (default: 408, 429, 500, 502, 503, 504) */
+  retryOn?: number[];
+  /** Error kinds that are retried (default: network, timeout) */
+  retryErrors?: RetryableError[];
+  /** Extra request headers */
+  headers?: Record<string, string>;
+  /** Cookies sent as a Cookie header */
+  cookies?: Record<string, string>;
+  /** Overrides the default User-Agent */
+  userAgent?: string;
+  /** HTTP basic auth credentials */
+  auth?: BasicAuth;
+  /** HTTP(S) proxy URL, or false to connect directly (default: WEBCONTENT_PROXY) */
+  proxy?: string | false;
+  /** Hosts that bypass the proxy (default: WEBCONTENT_NO_PROXY) */
+  noProxy?: string[];
+  /** Check robots.txt before each request and honor Crawl-delay (default: false) */
+  respectRobots?: boolean;
+}
+
+export interface BasicAuth {
+  username: string;
+  password: string;
+}
+
+export type FetchErrorCode = "timeout" | "network" | "body_too_large" | "too_many_redirects";
+
+/** Custom error class for failed fetches (timeouts, network errors, limits) */
+export class FetchError extends Error {
+  code: FetchErrorCode;
+  attempts: number;
+
+  constructor(message: string, code: FetchErrorCode, attempts = 1) {
+    super(message);
+    this.name = "FetchError";
+    this.code = code;
+    this.attempts = attempts;
+  }
+}
+
+export const DEFAULT_MAX_REDIRECTS = 10;
+export const DEFAULT_TIMEOUT = 30_000;
+export const DEFAULT_CONNECT_TIMEOUT = 10_000;
+export const DEFAULT_MAX_BODY_SIZE = 10 * 1024 * 1024;
+export const DEFAULT_RETRIES = 2;
+export const DEFAULT_RETRY_DELAY = 500;
+export const DEFAULT_RETRY_ON = [408, 429, 500, 502, 503, 504];
+const DEFAULT_RETRY_ERRORS: RetryableError[] = ["network", "timeout"];
+
+const MAX_REDIRECTS_LIMIT = 20;
+const MAX_TIMEOUT = 120_000;
+const MAX_BODY_SIZE_LIMIT = 50 * 1024 * 1024;
+const MAX_RETRIES = 5;
+/** Upper bound for a single backoff or Retry-After wait */
+const MAX_RETRY_WAIT = 30_000;
+
+/**
+ * Validate fetch options from an API body, query string or CLI flags.
+ * Only provided fields are returned.
+ */
+export function validateWebFetchOptions(obj: Record<string, unknown>): WebFetchOptions {
+  const result: WebFetchOptions = {};
+
+  if (obj.followRedirects !== undefined) {
+    if (typeof obj.followRedirects !== "boolean") {
+      throw new Error("'followRedirects' must be a boolean");
+    }
+    result.followRedirects = obj.followRedirects;
+  }
+
+  const integers = [
+    ["maxRedirects", 0, MAX_REDIRECTS_LIMIT],
+    ["timeout", 1, MAX_TIMEOUT],
+    ["connectTimeout", 1, MAX_TIMEOUT],
+    ["maxBodySize", 1, MAX_BODY_SIZE_LIMIT],
+    ["retries", 0, MAX_RETRIES],
+    ["retryDelay", 0, MAX_RETRY_WAIT],
+  ] as const;
+
+  for (const [field, min, max] of integers) {
+    const value = obj[field];
+    if (value === undefined) continue;
+    if (typeof value !== "number" || !Number.isInteger(value) || value < min || value > max) {
+      throw new Error(`'${field}' must be an integer between ${min} and ${max}`);
+    }
+    result[field] = value;
+  }
+
+  if (obj.retryOn !== undefined) {
+    const statuses = obj.retryOn;
+    if (
+      !Array.isArray(statuses) ||
+      statuses.some((s) => typeof s !== "number" || !Number.isInteger(s) || s < 400 || s > 599)
+    ) {
+      throw new Error("'retryOn' must be an array of HTTP status codes (400-599)");
+    }
+    result.retryOn = statuses;
+  }
+
+  if (obj.retryErrors !== undefined) {
+    const errors = obj.retryErrors;
+    if (
+      !Array.isArray(errors) ||
+      errors.some((e) => !DEFAULT_RETRY_ERRORS.includes(e as RetryableError))
+    ) {
+      throw new Error(`'retryErrors' must be an array of: ${DEFAULT_RETRY_ERRORS.join(", ")}`);
+    }
+    result.retryErrors = errors as RetryableError[];
+  }
+
+  if (obj.headers !== undefined) {
+    result.headers = validateStringMap(obj.headers, "headers", HEADER_NAME_PATTERN);
+  }
+
+  if (obj.cookies !== undefined) {
+    const cookies = typeof obj.cookies === "string" ? parseCookieString(obj.cookies) : obj.cookies;
+    result.cookies = validateStringMap(cookies, "cookies", COOKIE_NAME_PATTERN);
+    if (Object.values(result.cookies).some((v) => /[;,\s]/.test(v))) {
+      throw new Error("'cookies' values must not contain ';', ',' or whitespace");
+    }
+  }
+
+  if (obj.userAgent !== undefined) {
+    if (typeof obj.userAgent !== "string" || !obj.userAgent.trim()) {
+      throw new Error("'userAgent' must be a non-empty string");
+    }
+    result.userAgent = obj.userAgent;
+  }
+
+  if (obj.auth !== undefined) {
+    const auth = typeof obj.auth === "string" ? parseAuthString(obj.auth) : obj.auth;
+    if (
+      typeof auth !== "object" || auth === null ||
+      typeof (auth as BasicAuth).username !== "string" ||
+      typeof (auth as BasicAuth).password !== "string" ||
+      (auth as BasicAuth).username.includes(":")
+    ) {
+      throw new Error("'auth' must be { username, password } or \"username:password\"");
+    }
+    result.auth = {
+      username: (auth as BasicAuth).username,
+      password: (auth as BasicAuth).password,
+    };
+  }
+
+  if (obj.respectRobots !== undefined) {
+    if (typeof obj.respectRobots !== "boolean") {
+      throw new Error("'respectRobots' must be a boolean");
+    }
+    result.respectRobots = obj.respectRobots;
+  }
+
+  if (obj.proxy !== undefined) {
+    if (obj.proxy !== false && typeof obj.proxy !== "string") {
+      throw new Error("'proxy' must be a proxy URL or false");
+    }
+    result.proxy = obj.proxy === false ? false : validateProxyUrl(obj.proxy);
+  }
+
+  if (obj.noProxy !== undefined) {
+    const noProxy = typeof obj.noProxy === "string" ? parseNoProxy(obj.noProxy) : obj.noProxy;
+    if (!Array.isArray(noProxy) || noProxy.some((h) => typeof h !== "string" || !h.trim())) {
+      throw new Error("'noProxy' must be an array of hostnames or a comma-separated string");
+    }
+    result.noProxy = noProxy.map((h: string) => h.trim().toLowerCase());
+  }
+
+  return result;
+}
+
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9a-zA-Z-]+$/;
+const COOKIE_NAME_PATTERN = HEADER_NAME_PATTERN;
+/** Headers managed by the fetcher itself */
+const RESERVED_HEADERS = ["host", "content-length", "connection", "transfer-encoding"];
+
+function validateStringMap(
+  value: unknown,
+  field: string,
+  namePattern: RegExp
+): Record<string, string> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error(`'${field}' must be an object of string values`);
+  }
+
+  const result: Record<string, string> = {};
+  for (const [name, v] of Object.entries(value)) {
+    if (!namePattern.test(name) || typeof v !== "string" || /[\r\n]/.test(v)) {
+      throw new Error(`'${field}' has an invalid entry: ${name}`);
+    }
+    if (field === "headers" && RESERVED_HEADERS.includes(name.toLowerCase())) {
+      throw new Error(`Header '${name}' cannot be set`);
+    }
+    result[name] = v;
+  }
+  return result;
+}
+
+/** Parse "a=1; b=2" into { a: "1", b: "2" } */
+export function parseCookieString(value: string): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const part of value.split(";")) {
+    const index = part.indexOf("=");
+    if (index <= 0) continue;
+    cookies[part.slice(0, index).trim()] = part.slice(index + 1).trim();
+  }
+  return cookies;
+}
+
+/** Parse "Name: value" strings (curl -H style) into a header map */
+export function parseHeaderStrings(values: string[]): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const value of values) {
+    const index = value.indexOf(":");
+    if (index <= 0) {
+      throw new Error(`Invalid header "${value}", expected "Name: value"`);
+    }
+    headers[value.slice(0, index).trim()] = value.slice(index + 1).trim();
+  }
+  return headers;
+}
+
+/** Parse "user:pass" into basic auth credentials */
+export function parseAuthString(value: string): BasicAuth | null {
+  const index = value.indexOf(":");
+  if (index <= 0) return null;
+  return { username: value.slice(0, index), password: value.slice(index + 1) };
+}
+
+const REDACTED = "[REDACTED]";
+const SENSITIVE_HEADER_PATTERN = /authorization|cookie|token|secret|api-?key|session|password/i;
+
+/**
+ * Copy of fetch options that is safe to echo or persist:
+ * cookie values, passwords and sensitive header values are replaced.
+ */
+export function redactFetchOptions(options: WebFetchOptions): WebFetchOptions {
+  const redacted: WebFetchOptions = { ...options };
+
+  if (options.headers) {
+    redacted.headers = Object.fromEntries(
+      Object.entries(options.headers).map(([name, value]) => [
+        name,
+        SENSITIVE_HEADER_PATTERN.test(name) ? REDACTED : value,
+      ])
+    );
+  }
+
+  if (options.cookies) {
+    redacted.cookies = Object.fromEntries(
+      Object.keys(options.cookies).map((name) => [name, REDACTED])
+    );
+  }
+
+  if (options.auth) {
+    redacted.auth = { username: options.auth.username, password: REDACTED };
+  }
+
+  if (options.proxy) {
+    redacted.proxy = redactProxyUrl(options.proxy);
+  }
+
+  return redacted;
+}
+
+/**
+ * Inverse of redactFetchOptions() for re-use of persisted options:
+ * drops every value that was redacted, keeping the rest.
+ */
+export function stripRedactedOptions(options: Record<string, unknown>): Record<string, unknown> {
+  const stripped: Record<string, unknown> = { ...options };
+  const isRedacted = (value: unknown) => typeof value === "string" && value.includes(REDACTED);
+
+  for (const field of ["headers", "cookies"]) {
+    const map = stripped[field];
+    if (typeof map === "object" && map !== null) {
+      const kept = Object.entries(map).filter(([, value]) => !isRedacted(value));
+      stripped[field] = kept.length > 0 ? Object.fromEntries(kept) : undefined;
+    }
+  }
+
+  const auth = stripped.auth as BasicAuth | undefined;
+  if (auth && isRedacted(auth.password)) {
+    stripped.auth = undefined;
+  }
+
+  if (isRedacted(stripped.proxy)) {
+    stripped.proxy = undefined;
+  }
+
+  return stripped;
+}
+
+interface FetchSettings {
+  followRedirects: boolean;
+  maxRedirects: number;
+  connectTimeout: number;
+  maxBodySize: number;
+  retries: number;
+  retryDelay: number;
+  retryOn: number[];
+  retryErrors: RetryableError[];
+  /** Absolute time (ms) at which the whole fetch times out */
+  deadline: number;
+  timeout: number;
+  /** Headers sent with every request */
+  headers: Record<string, string>;
+  /** Cookie/Authorization headers, only sent to the original origin */
+  credentialHeaders: Record<string, string>;
+  proxy: string | false | undefined;
+  noProxy: string[] | undefined;
+  respectRobots: boolean;
+}
+
+/** How one hop is requested */
+interface Route {
+  proxy: string | undefined;
+  /** Target address checked by the URL policy (direct connections) */
+  address: string | null;
+  /** Proxy address checked by the URL policy (http:// proxies) */
+  proxyAddress: string | null;
+}
+
+interface AttemptResult {
+  status: number;
   headers: Record<string, string>;
+  location: string | null;
+  /** Resolved redirect target to follow, null if not following */
+  nextUrl: string | null;
   body: string;
+  bytes: Uint8Array;
+  encoding: string;
+  encodingSource: CharsetSource;
+  proxy: string | undefined;
+}
+
+export const DEFAULT_USER_AGENT = "Mozilla/5.0 (compatible; WebContent/1.0)";
+
+export interface WebFetcherConfig {
+  userAgent?: string;
+  /** Checked before the first request and every redirect hop (default: no restrictions) */
+  urlPolicy?: UrlPolicy | null;
+  /** Persistent robots.txt cache for respectRobots (default: memory only) */
+  robots?: RobotsSource | null;
+  /** Per-host and global request limits (default: the process-wide scheduler) */
+  scheduler?: OutboundScheduler;
 }
 
 export class WebFetcher {
   private userAgent: string;
+  private urlPolicy: UrlPolicy | null;
+  private robots: RobotsSource | null;
+  private scheduler: OutboundScheduler;
 
-  constructor(userAgent = "Mozilla/5.0 (compatible; WebContent/1.0)") {
-    this.userAgent = userAgent;
+  constructor(config: WebFetcherConfig = {}) {
+    this.userAgent = config.userAgent ?? DEFAULT_USER_AGENT;
+    this.urlPolicy = config.urlPolicy ?? null;
+    this.robots = config.robots ?? null;
+    this.scheduler = config.scheduler ?? getSharedScheduler();
   }
 
-  async fetch(url: string): Promise<FetchResult> {
-    const response = await fetch(url, {
-      headers: {
-        "User-Agent": this.userAgent,
-      },
-      redirect: "manual",
-    });
+  async fetch(url: string, options: WebFetchOptions = {}): Promise<FetchResult> {
+    const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+    const settings: FetchSettings = {
+      followRedirects: options.followRedirects ?? true,
+      maxRedirects: options.maxRedirects ?? DEFAULT_MAX_REDIRECTS,
+      connectTimeout: options.connectTimeout ?? DEFAULT_CONNECT_TIMEOUT,
+      maxBodySize: options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE,
+      retries: options.retries ?? DEFAULT_RETRIES,
+      retryDelay: options.retryDelay ?? DEFAULT_RETRY_DELAY,
+      retryOn: options.retryOn ?? DEFAULT_RETRY_ON,
+      retryErrors: options.retryErrors ?? DEFAULT_RETRY_ERRORS,
+      deadline: Date.now() + timeout,
+      timeout,
+      proxy: options.proxy,
+      noProxy: options.noProxy,
+      respectRobots: options.respectRobots ?? false,
+      ...this.buildHeaders(options),
+    };
+
+    const redirects: RedirectHop[] = [];
+    const counter = { attempts: 0, queueWait: 0 };
+    const origin = new URL(url).origin;
+    let currentUrl = url;
+    let robots: RobotsCheck | null = null;
 
-    const headers: Record<string, string> = {};
-    response.headers.forEach((value, key) => {
-      headers[key] = value;
-    });
+    while (true) {
+      // Decided per hop, since a redirect may lead to a no-proxy host
+      let route: Route = {
+        proxy: proxyForUrl(currentUrl, settings.proxy, settings.noProxy),
+        address: null,
+        proxyAddress: null,
+      };
+      if (this.urlPolicy) {
+        try {
+          route = await this.checkRoute(currentUrl, route.proxy, settings, this.urlPolicy);
+        } catch (error) {
+          if (error instanceof FetchError) error.attempts = counter.attempts;
+          throw error;
+        }
+      }
 
-    const body = await response.text();
+      if (settings.respectRobots) {
+        robots = await this.checkRobots(currentUrl, settings);
+      }
 
-    // Check for redirect (3xx status with Location header)
-    const isRedirect = response.status >= 300 && response.status < 400;
-    const location = response.headers.get("location");
+      // Credentials are not forwarded to other origins on redirect
+      const withCredentials = new URL(currentUrl).origin === origin;
+      const response = await this.requestWithRetry(currentUrl, settings, counter, withCredentials, route);
 
-    return {
-      url,
-      status: response.status,
-      redirect: isRedirect && location ? location : null,
-      headers,
-      body,
+      if (response.nextUrl) {
+        if (redirects.length >= settings.maxRedirects) {
+          throw new FetchError(
+            `Too many redirects (max ${settings.maxRedirects})`,
+            "too_many_redirects",
+            counter.attempts
+          );
+        }
+        redirects.push({ url: currentUrl, status: response.status, headers: response.headers });
+        currentUrl = response.nextUrl;
+        continue;
+      }
+
+      return {
+        url: currentUrl,
+        status: response.status,
+        redirect: response.status >= 300 && response.status < 400 ? response.location : null,
+        redirects,
+        headers: response.headers,
+        body: response.body,
+        bytes: response.bytes,
+        encoding: response.encoding,
+        encodingSource: response.encodingSource,
+        attempts: counter.attempts,
+        queueWait: counter.queueWait,
+        proxy: response.proxy ? redactProxyUrl(response.proxy) : null,
+        robots,
+      };
+    }
+  }
+
+  /**
+   * Check a hop against the URL policy: the target, and the proxy if it comes
+   * from the request options (WEBCONTENT_PROXY is trusted). The checked
+   * addresses are used for the connection, so DNS cannot change in between.
+   */
+  private async checkRoute(
+    url: string,
+    proxy: string | undefined,
+    settings: FetchSettings,
+    policy: UrlPolicy
+  ): Promise<Route> {
+    const [address] = await checkUrl(url, policy);
+    if (!proxy) {
+      return { proxy, address, proxyAddress: null };
+    }
+    if (typeof settings.proxy !== "string") {
+      return { proxy, address: null, proxyAddress: null };
+    }
+
+    const proxyUrl = new URL(proxy);
+    let proxyAddress: string;
+    try {
+      [proxyAddress] = await checkUrl(proxyUrl.origin, policy);
+    } catch (error) {
+      if (error instanceof UrlPolicyError) {
+        throw new UrlPolicyError(`Proxy: ${error.message}`, error.code, error.url);
+      }
+      throw error;
+    }
+    // An https:// proxy is verified by its hostname, so it cannot be pinned
+    return { proxy, address: null, proxyAddress: proxyUrl.protocol === "http:" ? proxyAddress : null };
+  }
+
+  /**
+   * Check a URL against its origin's robots.txt and wait for the Crawl-delay.
+   * Throws RobotsError if the URL is disallowed.
+   */
+  private async checkRobots(url: string, settings: FetchSettings): Promise<RobotsCheck> {
+    const origin = new URL(url).origin;
+    const userAgent = settings.headers["User-Agent"];
+
+    const { data, cached } = await getRobotsTxt(origin, this.robots, () =>
+      this.fetchRobotsTxt(origin, settings)
+    );
+    const check: RobotsCheck = { ...evaluateRobots(data, userAgent, url), cached };
+
+    if (!check.allowed) {
+      throw new RobotsError(`Disallowed by robots.txt (${check.rule}): ${url}`, url, check.rule);
+    }
+
+    if (check.crawlDelay) {
+      const { wait, cancel } = reserveCrawlSlot(origin, check.crawlDelay);
+      if (wait > 0 && !(await waitWithinDeadline(wait, settings.deadline))) {
+        cancel();
+        throw new FetchError(
+          `Crawl-delay wait of ${wait}ms exceeds the timeout of ${settings.timeout}ms`,
+          "timeout"
+        );
+      }
+    }
+
+    return check;
+  }
+
+  /**
+   * Fetch robots.txt with the request's User-Agent and proxy. Failures other
+   * than timeouts are reported as status 0 (unreachable: everything disallowed).
+   */
+  private async fetchRobotsTxt(
+    origin: string,
+    settings: FetchSettings
+  ): Promise<{ status: number; body: string }> {
+    try {
+      const result = await this.fetch(`${origin}/robots.txt`, {
+        userAgent: settings.headers["User-Agent"],
+        proxy: settings.proxy,
+        noProxy: settings.noProxy,
+        maxRedirects: 5,
+        maxBodySize: ROBOTS_MAX_SIZE,
+        retries: 0,
+        timeout: Math.max(1, Math.min(ROBOTS_TIMEOUT, settings.deadline - Date.now())),
+      });
+      return { status: result.status, body: result.body };
+    } catch (error) {
+      if (error instanceof FetchError && error.code === "timeout") {
+        throw error;
+      }
+      return { status: 0, body: "" };
+    }
+  }
+
+  /**
+   * Split request headers into general and credential headers.
+   * Header names are matched case-insensitively; cookies are appended
+   * to a Cookie header given in `headers`.
+   */
+  private buildHeaders(
+    options: WebFetchOptions
+  ): Pick<FetchSettings, "headers" | "credentialHeaders"> {
+    const headers: Record<string, string> = {
+      "User-Agent": options.userAgent ?? this.userAgent,
     };
+    const credentialHeaders: Record<string, string> = {};
+
+    for (const [name, value] of Object.entries(options.headers ?? {})) {
+      const key = name.toLowerCase();
+      if (key === "cookie" || key === "authorization") {
+        credentialHeaders[key] = value;
+      } else if (key === "user-agent") {
+        headers["User-Agent"] = options.userAgent ?? value;
+      } else {
+        headers[name] = value;
+      }
+    }
+
+    const cookies = Object.entries(options.cookies ?? {}).map(([name, value]) => `${name}=${value}`);
+    if (cookies.length > 0) {
+      credentialHeaders.cookie = [credentialHeaders.cookie, ...cookies].filter(Boolean).join("; ");
+    }
+
+    if (options.auth) {
+      const token = Buffer.from(`${options.auth.username}:${options.auth.password}`).toString("base64");
+      credentialHeaders.authorization = `Basic ${token}`;
+    }
+
+    return { headers, credentialHeaders };
+  }
+
+  /**
+   * Request a single URL, retrying retryable statuses and errors with
+   * exponential backoff. Retry-After is honored when it fits the time budget.
+   */
+  private async requestWithRetry(
+    url: string,
+    settings: FetchSettings,
+    counter: { attempts: number; queueWait: number },
+    withCredentials: boolean,
+    route: Route
+  ): Promise<AttemptResult> {
+    for (let retry = 0; ; retry++) {
+      counter.attempts++;
+      const canRetry = retry < settings.retries;
+
+      let result: AttemptResult;
+      try {
+        const slot = await this.scheduler.acquire(url, settings.deadline);
+        counter.queueWait += slot.waited;
+        try {
+          result = await this.attempt(url, settings, withCredentials, route);
+        } finally {
+          slot.release();
+        }
+      } catch (error) {
+        const fetchError = error instanceof FetchError
+          ? error
+          : new FetchError(error instanceof Error ? error.message : String(error), "network");
+        fetchError.attempts = counter.attempts;
+
+        const retryable = settings.retryErrors.includes(fetchError.code as RetryableError);
+        const delay = backoffDelay(settings.retryDelay, retry);
+        if (!canRetry || !retryable || !(await waitWithinDeadline(delay, settings.deadline))) {
+          throw fetchError;
+        }
+        continue;
+      }
+
+      if (!canRetry || !settings.retryOn.includes(result.status)) {
+        return result;
+      }
+
+      const retryAfter = parseRetryAfter(result.headers["retry-after"]);
+      const delay = retryAfter ?? backoffDelay(settings.retryDelay, retry);
+      if (delay > MAX_RETRY_WAIT || !(await waitWithinDeadline(delay, settings.deadline))) {
+        return result;
+      }
+    }
+  }
+
+  /**
+   * One HTTP request with connect and total timeouts and a body size limit.
+   * A checked address is connected to directly, with the original Host header
+   * and TLS server name.
+   */
+  private async attempt(
+    url: string,
+    settings: FetchSettings,
+    withCredentials: boolean,
+    route: Route
+  ): Promise<AttemptResult> {
+    const remaining = settings.deadline - Date.now();
+    if (remaining <= 0) {
+      throw new FetchError(`Request timed out after ${settings.timeout}ms`, "timeout");
+    }
+
+    const controller = new AbortController();
+    let timedOut: string | null = null;
+    const connectTimer = setTimeout(() => {
+      timedOut = `Connection timed out after ${settings.connectTimeout}ms`;
+      controller.abort();
+    }, Math.min(settings.connectTimeout, remaining));
+    const totalTimer = setTimeout(() => {
+      timedOut = `Request timed out after ${settings.timeout}ms`;
+      controller.abort();
+    }, remaining);
+
+    const proxy = route.proxy;
+    const connectProxy = proxy && route.proxyAddress ? withAddress(proxy, route.proxyAddress) : proxy;
+    const requestHeaders: Record<string, string> = withCredentials
+      ? { ...settings.headers, ...settings.credentialHeaders }
+      : { ...settings.headers };
+
+    const target = new URL(url);
+    const hostname = target.hostname.replace(/^\[|\]$/g, "");
+    let requestUrl = url;
+    let tls: BunFetchRequestInitTLS | undefined;
+    if (route.address && !isIP(hostname)) {
+      requestUrl = withAddress(url, route.address);
+      requestHeaders.Host = target.host;
+      if (target.protocol === "https:") {
+        tls = {
+          serverName: hostname,
+          checkServerIdentity: (_address, cert) => checkServerIdentity(hostname, cert),
+        };
+      }
+    }
+
+    try {
+      const response = await fetch(requestUrl, {
+        headers: requestHeaders,
+        redirect: "manual",
+        signal: controller.signal,
+        proxy: connectProxy,
+        tls,
+      });
+      clearTimeout(connectTimer);
+
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, key) => {
+        headers[key] = value;
+      });
+
+      // Check for redirect (3xx status with Location header)
+      const isRedirect = response.status >= 300 && response.status < 400;
+      const location = isRedirect ? response.headers.get("location") : null;
+      const nextUrl = settings.followRedirects && location ? resolveLocation(location, url) : null;
+
+      if (nextUrl) {
+        // Intermediate bodies are not needed
+        await response.body?.cancel();
+        return {
+          status: response.status,
+          headers,
+          location,
+          nextUrl,
+          body: "",
+          bytes: new Uint8Array(),
+          encoding: "utf-8",
+          encodingSource: "default",
+          proxy,
+        };
+      }
+
+      // Decode raw bytes with the detected charset (BOM, Content-Type, <meta>)
+      const bytes = await readBody(response, settings.maxBodySize);
+      const { text, encoding, encodingSource } = decodeBody(bytes, headers["content-type"]);
+      return {
+        status: response.status,
+        headers,
+        location,
+        nextUrl: null,
+        body: text,
+        bytes,
+        encoding,
+        encodingSource,
+        proxy,
+      };
+    } catch (error) {
+      if (timedOut) {
+        throw new FetchError(timedOut, "timeout");
+      }
+      if (proxy && !(error instanceof FetchError)) {
+        // Keep proxy credentials out of error messages
+        const message = error instanceof Error ? error.message : String(error);
+        const redacted = [connectProxy ?? proxy, proxy].reduce(
+          (text, value) => text.replaceAll(value, redactProxyUrl(proxy)),
+          message
+        );
+        throw new FetchError(
+          `Proxy request failed: ${redacted}`,
+          "network"
+        );
+      }
+      throw error;
+    } finally {
+      clearTimeout(connectTimer);
+      clearTimeout(totalTimer);
+    }
+  }
+}
+
+/**
+ * Read a response body as raw bytes, failing once it exceeds maxBodySize bytes.
+ */
+async function readBody(response: Response, maxBodySize: number): Promise<Uint8Array> {
+  const tooLarge = () =>
+    new FetchError(`Response body exceeds ${maxBodySize} bytes`, "body_too_large");
+
+  const contentLength = Number(response.headers.get("content-length"));
+  if (contentLength > maxBodySize) {
+    await response.body?.cancel();
+    throw tooLarge();
+  }
+
+  if (!response.body) {
+    return new Uint8Array();
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBodySize) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Exponential backoff with jitter: half the delay is fixed, half random.
+ */
+function backoffDelay(base: number, retry: number): number {
+  const delay = Math.min(base * 2 ** retry, MAX_RETRY_WAIT);
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds.
+ */
+function parseRetryAfter(value: string | undefined): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Sleep for `delay` ms unless that would pass the deadline.
+ * Returns false (without waiting) if there is not enough time left.
+ */
+async function waitWithinDeadline(delay: number, deadline: number): Promise<boolean> {
+  if (Date.now() + delay >= deadline) {
+    return false;
+  }
+  await Bun.sleep(delay);
+  return true;
+}
+
+/**
+ * Replace the hostname of a URL with an IP address.
+ */
+function withAddress(url: string, address: string): string {
+  const pinned = new URL(url);
+  pinned.hostname = isIP(address) === 6 ? `[${address}]` : address;
+  return pinned.href;
+}
+
+/**
+ * Resolve a Location header against the URL that returned it.
+ * Returns null for invalid or non-HTTP(S) targets, which are not followed.
+ */
+function resolveLocation(location: string, base: string): string | null {
+  try {
+    const resolved = new URL(location, base);
+    if (resolved.protocol !== "http:" && resolved.protocol !== "https:") {
+      return null;
+    }
+    return resolved.href;
+  } catch {
+    return null;
   }
 }
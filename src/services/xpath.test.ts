@@ -0,0 +1,125 @@
+import { describe, expect, test } from "bun:test";
+import { parse } from "node-html-parser";
+import { compileXPath, selectElements, validateSelector, XPathError } from "./xpath";
+import { DOMBridge } from "./dom-bridge";
+
+const HTML = `
+<div id="main">
+  <h2>Specs</h2>
+  <ul class="list">
+    <li class="item">One</li>
+    <li class="item featured">Two</li>
+    <li class="item">Three <b>bold</b></li>
+  </ul>
+  <h2>Price</h2>
+  <p lang="en">  Total:   42  </p>
+  <a href="/a">A</a>
+  <a>No link</a>
+</div>
+`;
+
+const root = parse(HTML);
+
+/** Text of the elements a selector matches */
+function select(xpath: string): string[] {
+  return selectElements(root, `xpath:${xpath}`).map((el) => el.text.trim());
+}
+
+describe("axes", () => {
+  test("child and descendant", () => {
+    expect(select("/div/ul/li")).toEqual(["One", "Two", "Three bold"]);
+    expect(select("//li/b")).toEqual(["bold"]);
+    expect(select("//div//b")).toEqual(["bold"]);
+  });
+
+  test("following-sibling and preceding-sibling", () => {
+    expect(select("//h2[.='Specs']/following-sibling::ul/li[1]")).toEqual(["One"]);
+    expect(select("//p/preceding-sibling::h2[1]")).toEqual(["Price"]);
+  });
+
+  test("parent, ancestor and self", () => {
+    expect(select("//b/..")).toEqual(["Three bold"]);
+    expect(select("//b/ancestor::li")).toEqual(["Three bold"]);
+    expect(select("//li/self::li[@class='item featured']")).toEqual(["Two"]);
+  });
+
+  test("following and preceding", () => {
+    expect(select("//ul/following::a")).toEqual(["A", "No link"]);
+    expect(select("//p/preceding::li")).toEqual(["One", "Two", "Three bold"]);
+  });
+});
+
+describe("predicates", () => {
+  test("positions count along the axis", () => {
+    expect(select("//li[2]")).toEqual(["Two"]);
+    expect(select("//li[last()]")).toEqual(["Three bold"]);
+    expect(select("//li[position() > 1]")).toEqual(["Two", "Three bold"]);
+    expect(select("//b/ancestor::*[1]")).toEqual(["Three bold"]);
+  });
+
+  test("attributes and text", () => {
+    expect(select("//a[@href]")).toEqual(["A"]);
+    expect(select("//a[not(@href)]")).toEqual(["No link"]);
+    expect(select("//li[text()='One']")).toEqual(["One"]);
+    expect(select("//p[@lang='en' and . != '']")).toHaveLength(1);
+  });
+
+  test("unions are in document order", () => {
+    expect(select("//a[@href] | //h2")).toEqual(["Specs", "Price", "A"]);
+  });
+});
+
+describe("functions", () => {
+  test("string functions", () => {
+    expect(select("//li[contains(@class, 'featured')]")).toEqual(["Two"]);
+    expect(select("//li[starts-with(., 'Th')]")).toEqual(["Three bold"]);
+    expect(select("//p[normalize-space() = 'Total: 42']")).toHaveLength(1);
+    expect(select("//h2[translate(., 'PRICE', 'price') = 'price']")).toEqual(["Price"]);
+    expect(select("//h2[substring-after(., 'Sp') = 'ecs']")).toEqual(["Specs"]);
+  });
+
+  test("node-set and number functions", () => {
+    expect(select("//ul[count(li) = 3]")).toHaveLength(1);
+    expect(select("//li[string-length(.) = 3]")).toEqual(["One", "Two"]);
+    expect(select("//*[local-name() = 'b']")).toEqual(["bold"]);
+    expect(select("//li[floor(1.7) = 1][round(position() div 2) = 1]")).toEqual(["One", "Two"]);
+  });
+});
+
+describe("rejected expressions", () => {
+  test.each([
+    ["//a/@href", "must select elements"],
+    ["//li/text()", "must select elements"],
+    ["//li/node()/@id | //li", "must select elements"],
+    ["//li | //li/text()", "must select elements"],
+    ["//comment()", "must select elements"],
+    ["count(//li)", "must select nodes"],
+    ["'text'", "must select nodes"],
+    ["//li[", "Invalid XPath"],
+    ["//li[foo()]", "Invalid XPath"],
+    ["//li[count(1)]", "node-set argument"],
+    ["", "empty expression"],
+  ])("%p", (expression, message) => {
+    expect(() => compileXPath(expression)).toThrow(XPathError);
+    expect(() => compileXPath(expression)).toThrow(message);
+  });
+
+  test("validateSelector checks only xpath: selectors", () => {
+    expect(() => validateSelector("xpath://a/@href")).toThrow(XPathError);
+    expect(() => validateSelector("a[href]")).not.toThrow();
+  });
+
+  test("elements may be reached through text and attribute steps", () => {
+    expect(select("//li/text()/..")).toEqual(["One", "Two", "Three bold"]);
+  });
+});
+
+describe("sandbox DOM", () => {
+  test("xpath: selectors query the linkedom tree", () => {
+    const bridge = new DOMBridge(HTML);
+    const items = bridge.querySelectorAll("xpath://li[contains(@class, 'item')][position() < 3]");
+    expect(items.map((item) => item.text)).toEqual(["One", "Two"]);
+    expect(bridge.querySelector("xpath://h2[.='Price']/following-sibling::p")?.attrs).toEqual({ lang: "en" });
+    expect(bridge.querySelectorAll("xpath://a/@href")).toEqual([]);
+  });
+});
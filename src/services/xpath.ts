@@ -0,0 +1,996 @@
+/**
+ * XPath Selectors
+ * XPath 1.0 for selector scopes and the sandbox `api.$`/`api.$$`, for what
+ * CSS can't express (axes such as following-sibling, text predicates).
+ * Selectors with the `xpath:` prefix are XPath. Expressions are compiled
+ * (and validated) once and evaluated on any DOM through a small adapter:
+ * node-html-parser for selector scopes, linkedom for the sandbox.
+ */
+
+import { HTMLElement, TextNode, type Node as ParserNode } from "node-html-parser";
+
+export const XPATH_PREFIX = "xpath:";
+
+/** Invalid XPath expression */
+export class XPathError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "XPathError";
+  }
+}
+
+/** Tree access for the evaluator; only elements and text nodes are visited */
+export interface XPathAdapter<N> {
+  /** Child elements and text nodes, in order */
+  children(node: N): N[];
+  parent(node: N): N | null;
+  /** Lowercase tag name of an element, null for other nodes */
+  tagName(node: N): string | null;
+  isText(node: N): boolean;
+  /** Attributes of an element (lowercase names) */
+  attributes(node: N): Record<string, string>;
+  /** Text of a text node */
+  text(node: N): string;
+}
+
+export interface CompiledXPath {
+  expression: string;
+  ast: Expr;
+}
+
+type Axis =
+  | "ancestor"
+  | "ancestor-or-self"
+  | "attribute"
+  | "child"
+  | "descendant"
+  | "descendant-or-self"
+  | "following"
+  | "following-sibling"
+  | "parent"
+  | "preceding"
+  | "preceding-sibling"
+  | "self";
+
+type NodeTest =
+  | { type: "name"; name: string } // "*" for any name
+  | { type: "text" }
+  | { type: "node" }
+  | { type: "comment" };
+
+interface Step {
+  axis: Axis;
+  test: NodeTest;
+  predicates: Expr[];
+}
+
+type Expr =
+  | { kind: "binary"; op: string; left: Expr; right: Expr }
+  | { kind: "negate"; operand: Expr }
+  | { kind: "literal"; value: string }
+  | { kind: "number"; value: number }
+  | { kind: "call"; name: string; args: Expr[] }
+  | { kind: "filter"; primary: Expr; predicates: Expr[] }
+  | { kind: "path"; absolute: boolean; start?: Expr; steps: Step[] };
+
+const AXES = new Set<string>([
+  "ancestor",
+  "ancestor-or-self",
+  "attribute",
+  "child",
+  "descendant",
+  "descendant-or-self",
+  "following",
+  "following-sibling",
+  "parent",
+  "preceding",
+  "preceding-sibling",
+  "self",
+]);
+
+/** Axes that count positions in reverse document order */
+const REVERSE_AXES = new Set<Axis>(["ancestor", "ancestor-or-self", "preceding", "preceding-sibling"]);
+
+const NODE_TYPES = new Set(["text", "node", "comment", "processing-instruction"]);
+
+/** Core function library: [min, max] arguments */
+const FUNCTIONS: Record<string, [number, number]> = {
+  last: [0, 0],
+  position: [0, 0],
+  count: [1, 1],
+  "local-name": [0, 1],
+  name: [0, 1],
+  string: [0, 1],
+  concat: [2, Infinity],
+  "starts-with": [2, 2],
+  contains: [2, 2],
+  "substring-before": [2, 2],
+  "substring-after": [2, 2],
+  substring: [2, 3],
+  "string-length": [0, 1],
+  "normalize-space": [0, 1],
+  translate: [3, 3],
+  boolean: [1, 1],
+  not: [1, 1],
+  true: [0, 0],
+  false: [0, 0],
+  number: [0, 1],
+  sum: [1, 1],
+  floor: [1, 1],
+  ceiling: [1, 1],
+  round: [1, 1],
+};
+
+/** Functions whose arguments must be node-sets */
+const NODE_SET_ARGS = new Set(["count", "local-name", "name", "sum"]);
+
+/** Whether a selector is XPath (has the `xpath:` prefix) */
+export function isXPath(selector: string): boolean {
+  return selector.startsWith(XPATH_PREFIX);
+}
+
+/**
+ * Validate a scope selector: XPath selectors are compiled, CSS selectors are
+ * left to the query. Throws XPathError for invalid XPath.
+ */
+export function validateSelector(selector: string): void {
+  if (isXPath(selector)) {
+    compileXPath(selector.slice(XPATH_PREFIX.length));
+  }
+}
+
+/**
+ * Parse an XPath expression. It must select nodes (a path, a union or a
+ * filtered node-set), not compute a string, number or boolean, and those
+ * nodes must be elements: a final attribute or text() step would never match.
+ */
+export function compileXPath(expression: string): CompiledXPath {
+  const parser = new Parser(expression);
+  const ast = parser.parse();
+  if (!isNodeSetExpr(ast)) {
+    throw new XPathError(`Invalid XPath "${expression}": the expression must select nodes`);
+  }
+  if (!selectsElements(ast)) {
+    throw new XPathError(
+      `Invalid XPath "${expression}": the expression must select elements, not attributes or text ` +
+        `(test those in a predicate, e.g. //a[@href])`
+    );
+  }
+  return { expression, ast };
+}
+
+/**
+ * Elements selected by a compiled expression, in document order. Text and
+ * attribute nodes in the result are skipped.
+ */
+export function evaluateXPath<N>(compiled: CompiledXPath, context: N, adapter: XPathAdapter<N>): N[] {
+  const evaluation = new Evaluation(adapter, context);
+  const result = evaluation.evaluate(compiled.ast, { node: context, position: 1, size: 1 });
+  return (result as XNode<N>[]).filter(
+    (node): node is N => !(node instanceof AttributeNode) && adapter.tagName(node) !== null
+  );
+}
+
+/** Elements matching a CSS or `xpath:` selector (node-html-parser) */
+export function selectElements(root: HTMLElement, selector: string): HTMLElement[] {
+  if (!isXPath(selector)) {
+    return root.querySelectorAll(selector);
+  }
+  const compiled = compileXPath(selector.slice(XPATH_PREFIX.length));
+  return evaluateXPath<ParserNode>(compiled, root, PARSER_ADAPTER) as HTMLElement[];
+}
+
+const PARSER_ADAPTER: XPathAdapter<ParserNode> = {
+  children: (node) =>
+    node.childNodes.filter((child) => child instanceof HTMLElement || child instanceof TextNode),
+  parent: (node) => node.parentNode ?? null,
+  tagName: (node) => (node instanceof HTMLElement && node.rawTagName ? node.rawTagName.toLowerCase() : null),
+  isText: (node) => node instanceof TextNode,
+  attributes: (node) =>
+    node instanceof HTMLElement
+      ? Object.fromEntries(Object.entries(node.attributes).map(([name, value]) => [name.toLowerCase(), value]))
+      : {},
+  text: (node) => node.text,
+};
+
+// ---------------------------------------------------------------------------
+// Parser
+// ---------------------------------------------------------------------------
+
+interface Token {
+  type: "name" | "literal" | "number" | "symbol" | "operator";
+  value: string;
+  pos: number;
+}
+
+const SYMBOLS = ["::", "//", "..", "!=", "<=", ">=", "/", "|", "+", "-", "=", "<", ">", "(", ")", "[", "]", ".", "@", ",", "*", "$"];
+
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(private expression: string) {
+    this.tokens = this.tokenize();
+  }
+
+  parse(): Expr {
+    if (this.tokens.length === 0) {
+      this.fail("empty expression");
+    }
+    const expr = this.parseOr();
+    if (this.peek()) {
+      this.fail(`unexpected "${this.peek()!.value}"`, this.peek()!.pos);
+    }
+    return expr;
+  }
+
+  private tokenize(): Token[] {
+    const tokens: Token[] = [];
+    const source = this.expression;
+    let pos = 0;
+
+    while (pos < source.length) {
+      const rest = source.slice(pos);
+      const space = rest.match(/^\s+/);
+      if (space) {
+        pos += space[0].length;
+        continue;
+      }
+
+      // An operator where the previous token ends an operand (XPath 1.0, 3.7)
+      const previous = tokens[tokens.length - 1];
+      const operatorContext =
+        !!previous &&
+        previous.type !== "operator" &&
+        !(previous.type === "symbol" && ["@", "::", "(", "[", ",", "/", "//", "|", "+", "-", "=", "!=", "<", "<=", ">", ">="].includes(previous.value));
+
+      const quote = rest[0];
+      if (quote === '"' || quote === "'") {
+        const end = source.indexOf(quote, pos + 1);
+        if (end < 0) this.fail("unterminated string", pos);
+        tokens.push({ type: "literal", value: source.slice(pos + 1, end), pos });
+        pos = end + 1;
+        continue;
+      }
+
+      const number = rest.match(/^(\d+(\.\d*)?|\.\d+)/);
+      if (number) {
+        tokens.push({ type: "number", value: number[0], pos });
+        pos += number[0].length;
+        continue;
+      }
+
+      const name = rest.match(/^[A-Za-z_][\w.-]*/);
+      if (name) {
+        const word = name[0];
+        const type = operatorContext && ["and", "or", "div", "mod"].includes(word) ? "operator" : "name";
+        tokens.push({ type, value: word, pos });
+        pos += word.length;
+        continue;
+      }
+
+      const symbol = SYMBOLS.find((s) => rest.startsWith(s));
+      if (!symbol) this.fail(`unexpected "${rest[0]}"`, pos);
+      if (symbol === "$") this.fail("variables are not supported", pos);
+      if (symbol === "*" && operatorContext) {
+        tokens.push({ type: "operator", value: "*", pos });
+      } else {
+        tokens.push({ type: "symbol", value: symbol, pos });
+      }
+      pos += symbol.length;
+    }
+
+    return tokens;
+  }
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.index + offset];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index++];
+    if (!token) this.fail("unexpected end of expression");
+    return token;
+  }
+
+  private isSymbol(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token?.type === "symbol" && token.value === value;
+  }
+
+  private isOperator(value: string): boolean {
+    const token = this.peek();
+    return token?.type === "operator" && token.value === value;
+  }
+
+  private expect(value: string): void {
+    const token = this.next();
+    if (token.type !== "symbol" || token.value !== value) {
+      this.fail(`expected "${value}" but found "${token.value}"`, token.pos);
+    }
+  }
+
+  private fail(reason: string, pos?: number): never {
+    const at = pos !== undefined ? ` at position ${pos + 1}` : "";
+    throw new XPathError(`Invalid XPath "${this.expression}": ${reason}${at}`);
+  }
+
+  private parseOr(): Expr {
+    let left = this.parseAnd();
+    while (this.isOperator("or")) {
+      this.next();
+      left = { kind: "binary", op: "or", left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expr {
+    let left = this.parseEquality();
+    while (this.isOperator("and")) {
+      this.next();
+      left = { kind: "binary", op: "and", left, right: this.parseEquality() };
+    }
+    return left;
+  }
+
+  private parseEquality(): Expr {
+    let left = this.parseRelational();
+    while (this.isSymbol("=") || this.isSymbol("!=")) {
+      const op = this.next().value;
+      left = { kind: "binary", op, left, right: this.parseRelational() };
+    }
+    return left;
+  }
+
+  private parseRelational(): Expr {
+    let left = this.parseAdditive();
+    while (["<", "<=", ">", ">="].some((op) => this.isSymbol(op))) {
+      const op = this.next().value;
+      left = { kind: "binary", op, left, right: this.parseAdditive() };
+    }
+    return left;
+  }
+
+  private parseAdditive(): Expr {
+    let left = this.parseMultiplicative();
+    while (this.isSymbol("+") || this.isSymbol("-")) {
+      const op = this.next().value;
+      left = { kind: "binary", op, left, right: this.parseMultiplicative() };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): Expr {
+    let left = this.parseUnary();
+    while (this.isOperator("*") || this.isOperator("div") || this.isOperator("mod")) {
+      const op = this.next().value;
+      left = { kind: "binary", op, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): Expr {
+    if (this.isSymbol("-")) {
+      this.next();
+      return { kind: "negate", operand: this.parseUnary() };
+    }
+    return this.parseUnion();
+  }
+
+  private parseUnion(): Expr {
+    let left = this.parsePath();
+    while (this.isSymbol("|")) {
+      const pos = this.next().pos;
+      const right = this.parsePath();
+      if (!isNodeSetExpr(left) || !isNodeSetExpr(right)) {
+        this.fail('"|" needs node-sets on both sides', pos);
+      }
+      left = { kind: "binary", op: "|", left, right };
+    }
+    return left;
+  }
+
+  private parsePath(): Expr {
+    const token = this.peek();
+    if (!token) this.fail("unexpected end of expression");
+
+    // Filter expression: literal, number, (expr) or function call
+    const isCall =
+      token.type === "name" && this.isSymbol("(", 1) && !NODE_TYPES.has(token.value);
+    if (token.type === "literal" || token.type === "number" || this.isSymbol("(") || isCall) {
+      const primary = this.parsePrimary();
+      const predicates = this.parsePredicates();
+      const filter: Expr = predicates.length > 0 ? { kind: "filter", primary, predicates } : primary;
+
+      if (this.isSymbol("/") || this.isSymbol("//")) {
+        if (!isNodeSetExpr(primary)) {
+          this.fail("a path can only follow a node-set", token.pos);
+        }
+        return { kind: "path", absolute: false, start: filter, steps: this.parseRelativePath(true) };
+      }
+      if (predicates.length > 0 && !isNodeSetExpr(primary)) {
+        this.fail("predicates can only filter a node-set", token.pos);
+      }
+      return filter;
+    }
+
+    if (this.isSymbol("/")) {
+      this.next();
+      const steps = this.startsStep() ? this.parseRelativePath(false) : [];
+      return { kind: "path", absolute: true, steps };
+    }
+    if (this.isSymbol("//")) {
+      this.next();
+      return { kind: "path", absolute: true, steps: [DESCENDANT_OR_SELF, ...this.parseRelativePath(false)] };
+    }
+    if (!this.startsStep()) {
+      this.fail(`unexpected "${token.value}"`, token.pos);
+    }
+    return { kind: "path", absolute: false, steps: this.parseRelativePath(false) };
+  }
+
+  private startsStep(): boolean {
+    const token = this.peek();
+    if (!token) return false;
+    if (token.type === "name") return true;
+    return token.type === "symbol" && ["*", "@", ".", ".."].includes(token.value);
+  }
+
+  /** Steps separated by / and // (afterFilter: starts with a separator) */
+  private parseRelativePath(afterFilter: boolean): Step[] {
+    const steps: Step[] = [];
+    if (!afterFilter) {
+      steps.push(this.parseStep());
+    }
+    while (this.isSymbol("/") || this.isSymbol("//")) {
+      if (this.next().value === "//") {
+        steps.push(DESCENDANT_OR_SELF);
+      }
+      steps.push(this.parseStep());
+    }
+    return steps;
+  }
+
+  private parseStep(): Step {
+    if (this.isSymbol(".")) {
+      this.next();
+      return { axis: "self", test: { type: "node" }, predicates: [] };
+    }
+    if (this.isSymbol("..")) {
+      this.next();
+      return { axis: "parent", test: { type: "node" }, predicates: [] };
+    }
+
+    let axis: Axis = "child";
+    if (this.isSymbol("@")) {
+      this.next();
+      axis = "attribute";
+    } else if (this.peek()?.type === "name" && this.isSymbol("::", 1)) {
+      const token = this.next();
+      if (!AXES.has(token.value)) {
+        this.fail(`unknown axis "${token.value}"`, token.pos);
+      }
+      axis = token.value as Axis;
+      this.next();
+    }
+
+    const test = this.parseNodeTest();
+    return { axis, test, predicates: this.parsePredicates() };
+  }
+
+  private parseNodeTest(): NodeTest {
+    const token = this.next();
+    if (token.type === "symbol" && token.value === "*") {
+      return { type: "name", name: "*" };
+    }
+    if (token.type !== "name") {
+      this.fail(`expected a node test but found "${token.value}"`, token.pos);
+    }
+
+    if (NODE_TYPES.has(token.value) && this.isSymbol("(")) {
+      this.next();
+      if (token.value === "processing-instruction" && this.peek()?.type === "literal") {
+        this.next();
+      }
+      this.expect(")");
+      // Comments and processing instructions are not in the tree
+      if (token.value === "text") return { type: "text" };
+      if (token.value === "node") return { type: "node" };
+      return { type: "comment" };
+    }
+    return { type: "name", name: token.value.toLowerCase() };
+  }
+
+  private parsePredicates(): Expr[] {
+    const predicates: Expr[] = [];
+    while (this.isSymbol("[")) {
+      this.next();
+      predicates.push(this.parseOr());
+      this.expect("]");
+    }
+    return predicates;
+  }
+
+  private parsePrimary(): Expr {
+    const token = this.next();
+    if (token.type === "literal") {
+      return { kind: "literal", value: token.value };
+    }
+    if (token.type === "number") {
+      return { kind: "number", value: Number(token.value) };
+    }
+    if (token.type === "symbol" && token.value === "(") {
+      const expr = this.parseOr();
+      this.expect(")");
+      return expr;
+    }
+
+    // Function call
+    const arity = FUNCTIONS[token.value];
+    if (!arity) {
+      this.fail(`unknown function "${token.value}()"`, token.pos);
+    }
+    this.expect("(");
+    const args: Expr[] = [];
+    if (!this.isSymbol(")")) {
+      args.push(this.parseOr());
+      while (this.isSymbol(",")) {
+        this.next();
+        args.push(this.parseOr());
+      }
+    }
+    this.expect(")");
+
+    const [min, max] = arity;
+    if (args.length < min || args.length > max) {
+      this.fail(`wrong number of arguments for "${token.value}()"`, token.pos);
+    }
+    if (NODE_SET_ARGS.has(token.value) && args.some((arg) => !isNodeSetExpr(arg))) {
+      this.fail(`"${token.value}()" needs a node-set argument`, token.pos);
+    }
+    return { kind: "call", name: token.value, args };
+  }
+}
+
+const DESCENDANT_OR_SELF: Step = { axis: "descendant-or-self", test: { type: "node" }, predicates: [] };
+
+/** Whether an expression evaluates to a node-set (no core function returns one) */
+function isNodeSetExpr(expr: Expr): boolean {
+  switch (expr.kind) {
+    case "path":
+      return true;
+    case "filter":
+      return isNodeSetExpr(expr.primary);
+    case "binary":
+      return expr.op === "|";
+    default:
+      return false;
+  }
+}
+
+/** Whether a node-set expression can select elements (every union branch must) */
+function selectsElements(expr: Expr): boolean {
+  switch (expr.kind) {
+    case "path": {
+      const last = expr.steps[expr.steps.length - 1];
+      if (!last) return expr.start ? selectsElements(expr.start) : true;
+      return last.axis !== "attribute" && (last.test.type === "name" || last.test.type === "node");
+    }
+    case "filter":
+      return selectsElements(expr.primary);
+    case "binary":
+      return selectsElements(expr.left) && selectsElements(expr.right);
+    default:
+      return false;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+/** An attribute as a node (attribute axis, @name) */
+class AttributeNode<N> {
+  constructor(
+    readonly owner: N,
+    readonly name: string,
+    readonly value: string
+  ) {}
+}
+
+type XNode<N> = N | AttributeNode<N>;
+type XValue<N> = XNode<N>[] | string | number | boolean;
+
+interface Context<N> {
+  node: XNode<N>;
+  position: number;
+  size: number;
+}
+
+class Evaluation<N> {
+  private root: N;
+  /** Nodes in document order (preorder) */
+  private nodes: N[] = [];
+  private order = new Map<N, number>();
+  /** Index of the last descendant of each node */
+  private subtreeEnd = new Map<N, number>();
+  private attributeNodes = new Map<N, AttributeNode<N>[]>();
+
+  constructor(
+    private adapter: XPathAdapter<N>,
+    context: N
+  ) {
+    let root = context;
+    for (let parent = adapter.parent(root); parent; parent = adapter.parent(parent)) {
+      root = parent;
+    }
+    this.root = root;
+    this.index(root);
+  }
+
+  private index(node: N): void {
+    this.order.set(node, this.nodes.length);
+    this.nodes.push(node);
+    for (const child of this.adapter.children(node)) {
+      this.index(child);
+    }
+    this.subtreeEnd.set(node, this.nodes.length - 1);
+  }
+
+  evaluate(expr: Expr, context: Context<N>): XValue<N> {
+    switch (expr.kind) {
+      case "literal":
+      case "number":
+        return expr.value;
+      case "negate":
+        return -this.toNumber(this.evaluate(expr.operand, context));
+      case "call":
+        return this.call(expr.name, expr.args, context);
+      case "filter":
+        return this.filter(this.evaluate(expr.primary, context) as XNode<N>[], expr.predicates, false);
+      case "path":
+        return this.path(expr, context);
+      case "binary":
+        return this.binary(expr.op, expr.left, expr.right, context);
+    }
+  }
+
+  private path(expr: Extract<Expr, { kind: "path" }>, context: Context<N>): XNode<N>[] {
+    let nodes: XNode<N>[];
+    if (expr.start) {
+      nodes = this.evaluate(expr.start, context) as XNode<N>[];
+    } else {
+      nodes = [expr.absolute ? this.root : context.node];
+    }
+
+    for (const step of expr.steps) {
+      const selected: XNode<N>[] = [];
+      for (const node of nodes) {
+        const candidates = this.axis(node, step.axis).filter((candidate) => this.matches(candidate, step));
+        selected.push(...this.filter(candidates, step.predicates, REVERSE_AXES.has(step.axis)));
+      }
+      nodes = this.sort(selected);
+    }
+    return nodes;
+  }
+
+  /** Apply predicates; positions count along the axis direction */
+  private filter(nodes: XNode<N>[], predicates: Expr[], reverse: boolean): XNode<N>[] {
+    let result = reverse ? [...nodes].reverse() : nodes;
+    for (const predicate of predicates) {
+      const size = result.length;
+      result = result.filter((node, i) => {
+        const value = this.evaluate(predicate, { node, position: i + 1, size });
+        return typeof value === "number" ? value === i + 1 : this.toBoolean(value);
+      });
+    }
+    return reverse ? result.reverse() : result;
+  }
+
+  /** Nodes on an axis, in document order */
+  private axis(node: XNode<N>, axis: Axis): XNode<N>[] {
+    if (node instanceof AttributeNode) {
+      switch (axis) {
+        case "self":
+          return [node];
+        case "parent":
+          return [node.owner];
+        case "ancestor":
+          return [...this.ancestors(node.owner), node.owner];
+        case "ancestor-or-self":
+          return [...this.ancestors(node.owner), node.owner, node];
+        case "following":
+          return this.nodes.slice(this.order.get(node.owner)! + 1);
+        case "preceding":
+          return this.axis(node.owner, "preceding");
+        default:
+          return [];
+      }
+    }
+
+    const index = this.order.get(node)!;
+    const end = this.subtreeEnd.get(node)!;
+    switch (axis) {
+      case "self":
+        return [node];
+      case "child":
+        return this.adapter.children(node);
+      case "descendant":
+        return this.nodes.slice(index + 1, end + 1);
+      case "descendant-or-self":
+        return this.nodes.slice(index, end + 1);
+      case "parent": {
+        const parent = this.adapter.parent(node);
+        return parent ? [parent] : [];
+      }
+      case "ancestor":
+        return this.ancestors(node);
+      case "ancestor-or-self":
+        return [...this.ancestors(node), node];
+      case "following-sibling":
+      case "preceding-sibling": {
+        const parent = this.adapter.parent(node);
+        if (!parent) return [];
+        const siblings = this.adapter.children(parent);
+        const position = siblings.indexOf(node);
+        return axis === "following-sibling" ? siblings.slice(position + 1) : siblings.slice(0, position);
+      }
+      case "following":
+        return this.nodes.slice(end + 1);
+      case "preceding": {
+        const ancestors = new Set(this.ancestors(node));
+        return this.nodes.slice(0, index).filter((n) => !ancestors.has(n));
+      }
+      case "attribute":
+        return this.attributes(node);
+    }
+  }
+
+  /** Ancestors in document order (root first) */
+  private ancestors(node: N): N[] {
+    const ancestors: N[] = [];
+    for (let parent = this.adapter.parent(node); parent; parent = this.adapter.parent(parent)) {
+      ancestors.unshift(parent);
+    }
+    return ancestors;
+  }
+
+  /** Attribute nodes of an element, the same objects on every call */
+  private attributes(node: N): AttributeNode<N>[] {
+    let attributes = this.attributeNodes.get(node);
+    if (!attributes) {
+      attributes = Object.entries(this.adapter.attributes(node)).map(
+        ([name, value]) => new AttributeNode(node, name, value)
+      );
+      this.attributeNodes.set(node, attributes);
+    }
+    return attributes;
+  }
+
+  private matches(node: XNode<N>, step: Step): boolean {
+    const { test } = step;
+    switch (test.type) {
+      case "node":
+        return true;
+      case "comment":
+        return false;
+      case "text":
+        return !(node instanceof AttributeNode) && this.adapter.isText(node);
+      case "name": {
+        // The principal node type is attribute on the attribute axis, else element
+        const name = node instanceof AttributeNode
+          ? step.axis === "attribute" ? node.name : null
+          : step.axis === "attribute" ? null : this.adapter.tagName(node);
+        return name !== null && (test.name === "*" || test.name === name);
+      }
+    }
+  }
+
+  /** Document order without duplicates; attributes follow their element */
+  private sort(nodes: XNode<N>[]): XNode<N>[] {
+    const key = (node: XNode<N>) =>
+      node instanceof AttributeNode
+        ? this.order.get(node.owner)! + (this.attributes(node.owner).indexOf(node) + 1) / 1e6
+        : this.order.get(node)!;
+    return [...new Set(nodes)].sort((a, b) => key(a) - key(b));
+  }
+
+  private binary(op: string, leftExpr: Expr, rightExpr: Expr, context: Context<N>): XValue<N> {
+    if (op === "or") {
+      return this.toBoolean(this.evaluate(leftExpr, context)) || this.toBoolean(this.evaluate(rightExpr, context));
+    }
+    if (op === "and") {
+      return this.toBoolean(this.evaluate(leftExpr, context)) && this.toBoolean(this.evaluate(rightExpr, context));
+    }
+
+    const left = this.evaluate(leftExpr, context);
+    const right = this.evaluate(rightExpr, context);
+    switch (op) {
+      case "|":
+        return this.sort([...(left as XNode<N>[]), ...(right as XNode<N>[])]);
+      case "+":
+        return this.toNumber(left) + this.toNumber(right);
+      case "-":
+        return this.toNumber(left) - this.toNumber(right);
+      case "*":
+        return this.toNumber(left) * this.toNumber(right);
+      case "div":
+        return this.toNumber(left) / this.toNumber(right);
+      case "mod":
+        return this.toNumber(left) % this.toNumber(right);
+      default:
+        return this.compare(op, left, right);
+    }
+  }
+
+  /** Comparison with the XPath 1.0 node-set rules (any pair of values) */
+  private compare(op: string, left: XValue<N>, right: XValue<N>): boolean {
+    if (Array.isArray(left) && Array.isArray(right)) {
+      const rightValues = right.map((node) => this.stringValue(node));
+      return left.some((node) => rightValues.some((value) => this.compareAtoms(op, this.stringValue(node), value)));
+    }
+    if (Array.isArray(left) && !Array.isArray(right)) {
+      if (typeof right === "boolean") return this.compareAtoms(op, this.toBoolean(left), right);
+      return left.some((node) => this.compareAtoms(op, this.atomFor(node, right), right));
+    }
+    if (Array.isArray(right) && !Array.isArray(left)) {
+      if (typeof left === "boolean") return this.compareAtoms(op, left, this.toBoolean(right));
+      return right.some((node) => this.compareAtoms(op, left, this.atomFor(node, left)));
+    }
+    return this.compareAtoms(op, left as string | number | boolean, right as string | number | boolean);
+  }
+
+  /** A node's value for comparison with a number or string */
+  private atomFor(node: XNode<N>, other: string | number): string | number {
+    const value = this.stringValue(node);
+    return typeof other === "number" ? this.toNumber(value) : value;
+  }
+
+  private compareAtoms(op: string, left: string | number | boolean, right: string | number | boolean): boolean {
+    if (op === "=" || op === "!=") {
+      let equal: boolean;
+      if (typeof left === "boolean" || typeof right === "boolean") {
+        equal = this.toBoolean(left) === this.toBoolean(right);
+      } else if (typeof left === "number" || typeof right === "number") {
+        equal = this.toNumber(left) === this.toNumber(right);
+      } else {
+        equal = left === right;
+      }
+      return op === "=" ? equal : !equal;
+    }
+
+    const a = this.toNumber(left);
+    const b = this.toNumber(right);
+    switch (op) {
+      case "<":
+        return a < b;
+      case "<=":
+        return a <= b;
+      case ">":
+        return a > b;
+      default:
+        return a >= b;
+    }
+  }
+
+  private call(name: string, argExprs: Expr[], context: Context<N>): XValue<N> {
+    const args = argExprs.map((arg) => this.evaluate(arg, context));
+    const str = (i: number) => (args.length > i ? this.toString(args[i]) : this.stringValue(context.node));
+    const nodes = (i: number) => (args.length > i ? (args[i] as XNode<N>[]) : [context.node]);
+
+    switch (name) {
+      case "last":
+        return context.size;
+      case "position":
+        return context.position;
+      case "count":
+        return nodes(0).length;
+      case "local-name":
+      case "name": {
+        const node = nodes(0)[0];
+        if (!node) return "";
+        return node instanceof AttributeNode ? node.name : this.adapter.tagName(node) ?? "";
+      }
+      case "string":
+        return str(0);
+      case "concat":
+        return args.map((arg) => this.toString(arg)).join("");
+      case "starts-with":
+        return str(0).startsWith(str(1));
+      case "contains":
+        return str(0).includes(str(1));
+      case "substring-before": {
+        const at = str(0).indexOf(str(1));
+        return at < 0 ? "" : str(0).slice(0, at);
+      }
+      case "substring-after": {
+        const at = str(0).indexOf(str(1));
+        return at < 0 ? "" : str(0).slice(at + str(1).length);
+      }
+      case "substring": {
+        // 1-based, rounded positions; characters with start <= p < start + length
+        const value = str(0);
+        const start = Math.round(this.toNumber(args[1]));
+        const end = args.length > 2 ? start + Math.round(this.toNumber(args[2])) : Infinity;
+        return Array.from(value)
+          .filter((_, i) => i + 1 >= start && i + 1 < end)
+          .join("");
+      }
+      case "string-length":
+        return Array.from(str(0)).length;
+      case "normalize-space":
+        return str(0).replace(/\s+/g, " ").trim();
+      case "translate": {
+        const from = Array.from(str(1));
+        const to = Array.from(str(2));
+        return Array.from(str(0))
+          .map((char) => {
+            const at = from.indexOf(char);
+            return at < 0 ? char : to[at] ?? "";
+          })
+          .join("");
+      }
+      case "boolean":
+        return this.toBoolean(args[0]);
+      case "not":
+        return !this.toBoolean(args[0]);
+      case "true":
+        return true;
+      case "false":
+        return false;
+      case "number":
+        return args.length > 0 ? this.toNumber(args[0]) : this.toNumber(this.stringValue(context.node));
+      case "sum":
+        return nodes(0).reduce((total, node) => total + this.toNumber(this.stringValue(node)), 0);
+      case "floor":
+        return Math.floor(this.toNumber(args[0]));
+      case "ceiling":
+        return Math.ceil(this.toNumber(args[0]));
+      case "round":
+        return Math.round(this.toNumber(args[0]));
+      default:
+        throw new XPathError(`Unknown XPath function "${name}()"`);
+    }
+  }
+
+  private stringValue(node: XNode<N>): string {
+    if (node instanceof AttributeNode) {
+      return node.value;
+    }
+    if (this.adapter.isText(node)) {
+      return this.adapter.text(node);
+    }
+    const index = this.order.get(node)!;
+    return this.nodes
+      .slice(index + 1, this.subtreeEnd.get(node)! + 1)
+      .filter((n) => this.adapter.isText(n))
+      .map((n) => this.adapter.text(n))
+      .join("");
+  }
+
+  private toString(value: XValue<N>): string {
+    if (Array.isArray(value)) {
+      return value.length > 0 ? this.stringValue(value[0]) : "";
+    }
+    if (typeof value === "number") {
+      if (Number.isNaN(value)) return "NaN";
+      if (!Number.isFinite(value)) return value > 0 ? "Infinity" : "-Infinity";
+      return Number.isInteger(value) ? value.toFixed(0) : String(value);
+    }
+    return String(value);
+  }
+
+  private toNumber(value: XValue<N>): number {
+    if (typeof value === "number") return value;
+    if (typeof value === "boolean") return value ? 1 : 0;
+    const text = this.toString(value).trim();
+    return /^-?(\d+(\.\d*)?|\.\d+)$/.test(text) ? Number(text) : NaN;
+  }
+
+  private toBoolean(value: XValue<N>): boolean {
+    if (Array.isArray(value)) return value.length > 0;
+    if (typeof value === "number") return value !== 0 && !Number.isNaN(value);
+    if (typeof value === "string") return value.length > 0;
+    return value;
+  }
+}